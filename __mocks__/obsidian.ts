@@ -0,0 +1,321 @@
+import { StateField } from "@codemirror/state";
+import { dump, load } from "js-yaml";
+
+// The obsidian package only ships types. This stands in for what the plugin uses of it at runtime,
+// plus the globals obsidian adds to the app. The vault lives in memory and fires no events, tests sync explicitly.
+
+String.prototype.contains = function (this: string, target: string) {
+    return this.includes(target);
+};
+(globalThis as unknown as { window: typeof globalThis }).window = globalThis;
+
+export function arrayBufferToBase64(buffer: ArrayBuffer) {
+    return Buffer.from(buffer).toString("base64");
+}
+
+export function base64ToArrayBuffer(base64: string) {
+    let bytes = Buffer.from(base64, "base64");
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+}
+
+export function parseYaml(yaml: string) {
+    return load(yaml);
+}
+
+export function stringifyYaml(obj: unknown) {
+    return dump(obj);
+}
+
+export function normalizePath(path: string) {
+    return path.replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "") || "/";
+}
+
+// timers don't keep the test run alive, run() is how tests get at the result
+export function debounce<T extends unknown[], V>(cb: (...args: [...T]) => V, timeout = 0) {
+    let timer: NodeJS.Timeout | null = null;
+    let pending: T | null = null;
+    function debouncer(...args: [...T]) {
+        pending = args;
+        if (timer) {
+            clearTimeout(timer);
+        }
+        timer = setTimeout(() => debouncer.run(), timeout);
+        timer.unref();
+        return debouncer;
+    }
+    debouncer.cancel = () => {
+        if (timer) {
+            clearTimeout(timer);
+        }
+        timer = null;
+        pending = null;
+        return debouncer;
+    };
+    debouncer.run = () => {
+        let args = pending;
+        debouncer.cancel();
+        return args ? cb(...args) : undefined;
+    };
+    return debouncer;
+}
+
+export function setIcon() {}
+
+export const Platform = { isMobile: false, isDesktop: true };
+
+export const editorInfoField = StateField.define<null>({ create: () => null, update: (value) => value });
+
+export class TAbstractFile {
+    vault: Vault;
+    path: string;
+    name: string;
+    parent: TFolder | null = null;
+
+    constructor(vault: Vault, path: string) {
+        this.vault = vault;
+        this.setPath(path);
+    }
+
+    setPath(path: string) {
+        this.path = path;
+        this.name = path.slice(path.lastIndexOf("/") + 1);
+    }
+}
+
+export class TFile extends TAbstractFile {
+    stat = { ctime: Date.now(), mtime: Date.now(), size: 0 };
+    basename: string;
+    extension: string;
+
+    setPath(path: string) {
+        super.setPath(path);
+        let dot = this.name.lastIndexOf(".");
+        this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+        this.extension = dot > 0 ? this.name.slice(dot + 1) : "";
+    }
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+
+    isRoot() {
+        return this.path == "/";
+    }
+}
+
+// the disk, which is also where vault content lives. Files written straight to it aren't indexed, like dotfiles.
+class MemoryAdapter {
+    data: {[path: string]: string | ArrayBuffer} = {};
+
+    async exists(path: string) {
+        return path in this.data;
+    }
+
+    async read(path: string) {
+        return this.data[path] as string;
+    }
+
+    async write(path: string, data: string) {
+        this.data[path] = data;
+    }
+
+    async remove(path: string) {
+        delete this.data[path];
+    }
+
+    async rename(path: string, newPath: string) {
+        this.data[newPath] = this.data[path];
+        delete this.data[path];
+    }
+}
+
+function byteLength(data: string | ArrayBuffer) {
+    return typeof data == "string" ? Buffer.byteLength(data) : data.byteLength;
+}
+
+export class Vault {
+    adapter = new MemoryAdapter();
+    configDir = ".obsidian";
+    root: TFolder;
+    index: {[path: string]: TAbstractFile} = {};
+
+    constructor() {
+        this.root = new TFolder(this, "/");
+    }
+
+    on() {
+        return {};
+    }
+
+    getAbstractFileByPath(path: string) {
+        return path == "/" ? this.root : this.index[path] || null;
+    }
+
+    getFolderByPath(path: string) {
+        let folder = this.getAbstractFileByPath(path);
+        return folder instanceof TFolder ? folder : null;
+    }
+
+    getFiles() {
+        return Object.values(this.index).filter((file): file is TFile => file instanceof TFile);
+    }
+
+    private add<T extends TAbstractFile>(item: T) {
+        if (this.index[item.path]) {
+            throw new Error("File already exists.");
+        }
+        let parentPath = item.path.includes("/") ? item.path.slice(0, item.path.lastIndexOf("/")) : "/";
+        let parent = this.getFolderByPath(parentPath);
+        if (!parent) {
+            throw new Error("Folder does not exist: " + parentPath);
+        }
+        item.parent = parent;
+        parent.children.push(item);
+        this.index[item.path] = item;
+        return item;
+    }
+
+    private write(file: TFile, data: string | ArrayBuffer) {
+        this.adapter.data[file.path] = data;
+        file.stat = { ...file.stat, mtime: Date.now(), size: byteLength(data) };
+    }
+
+    async create(path: string, data: string) {
+        let file = this.add(new TFile(this, normalizePath(path)));
+        this.write(file, data);
+        return file;
+    }
+
+    async createBinary(path: string, data: ArrayBuffer) {
+        let file = this.add(new TFile(this, normalizePath(path)));
+        this.write(file, data);
+        return file;
+    }
+
+    async createFolder(path: string) {
+        return this.add(new TFolder(this, normalizePath(path)));
+    }
+
+    async read(file: TFile) {
+        return this.adapter.data[file.path] as string;
+    }
+
+    async cachedRead(file: TFile) {
+        return this.read(file);
+    }
+
+    async readBinary(file: TFile) {
+        return this.adapter.data[file.path] as ArrayBuffer;
+    }
+
+    async modify(file: TFile, data: string) {
+        this.write(file, data);
+    }
+
+    async modifyBinary(file: TFile, data: ArrayBuffer) {
+        this.write(file, data);
+    }
+
+    async delete(file: TAbstractFile) {
+        if (file instanceof TFolder) {
+            for (let child of [...file.children]) {
+                await this.delete(child);
+            }
+        }
+        file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+        delete this.index[file.path];
+        delete this.adapter.data[file.path];
+    }
+
+    async rename(file: TAbstractFile, newPath: string) {
+        let items = [file, ...Object.values(this.index).filter((item) => item.path.startsWith(file.path + "/"))];
+        let oldPath = file.path;
+        file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+        for (let item of items) {
+            delete this.index[item.path];
+        }
+        file.setPath(normalizePath(newPath));
+        this.add(file);
+        for (let item of items) {
+            if (item !== file) {
+                let path = newPath + item.path.slice(oldPath.length);
+                if (item instanceof TFile) {
+                    await this.adapter.rename(item.path, path);
+                }
+                item.setPath(path);
+                this.index[path] = item;
+            }
+        }
+        if (file instanceof TFile) {
+            await this.adapter.rename(oldPath, file.path);
+        }
+    }
+}
+
+// nothing is ever open
+export class Workspace {
+    on() {
+        return {};
+    }
+
+    onLayoutReady() {}
+
+    getActiveFile() {
+        return null;
+    }
+
+    getActiveViewOfType() {
+        return null;
+    }
+
+    getLeavesOfType() {
+        return [];
+    }
+}
+
+export class App {
+    vault = new Vault();
+    workspace = new Workspace();
+}
+
+export class Component {}
+
+export class Plugin extends Component {
+    app: App;
+    manifest: unknown;
+    data: unknown = null;
+
+    constructor(app: App, manifest: unknown) {
+        super();
+        this.app = app;
+        this.manifest = manifest;
+    }
+
+    async loadData() {
+        return this.data;
+    }
+
+    async saveData(data: unknown) {
+        this.data = JSON.parse(JSON.stringify(data));
+    }
+}
+
+export class Modal {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    open() {}
+
+    close() {}
+}
+
+export class FuzzySuggestModal extends Modal {}
+export class PluginSettingTab {}
+export class ItemView extends Component {}
+export class FileView extends ItemView {}
+export class MarkdownView extends FileView {}
+export class Setting {}
+export class Notice {}
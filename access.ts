@@ -0,0 +1,128 @@
+import { App, Modal, Notice, Setting, editorInfoField } from "obsidian"
+import { EditorState } from "@codemirror/state";
+import { Invite } from "transport"
+
+// Share codes are "<root>:<token>", with ":<key>" appended for encrypted roots when the key travels along.
+// A bare root still joins roots from before access control.
+export function formatShareCode(root: string, token: string, key: string | null = null) {
+    return root + ":" + token + (key ? ":" + key : "");
+}
+
+// Share links wrap a share code and the broker it lives on: obsidian://soups-collab?join=<code>&broker=<endpoint>
+export const SHARE_LINK_ACTION = "soups-collab";
+
+export function formatShareLink(code: string, broker: string) {
+    return "obsidian://" + SHARE_LINK_ACTION + "?join=" + encodeURIComponent(code) + "&broker=" + encodeURIComponent(broker);
+}
+
+export function parseShareCode(code: string): {root: string, token: string | null, key: string | null} {
+    let [root, token, key] = code.trim().split(":");
+    return { root: root, token: token || null, key: key || null };
+}
+
+// Editors showing a file isReadOnly says so refuse typing. Recomputed on every document change,
+// which also covers obsidian loading another file into the same editor.
+export function readOnlyExtension(isReadOnly: (path: string) => boolean) {
+    return EditorState.readOnly.compute(["doc"], (state) => {
+        let file = state.field(editorInfoField, false)?.file;
+        return file ? isReadOnly(file.path) : false;
+    });
+}
+
+// The live invites of a root, each with the code to hand out and a revoke button
+export class InviteListModal extends Modal {
+    root: string;
+    // for encrypted roots, put in the codes so joiners don't need the passphrase
+    key: string | null;
+    invites: Invite[];
+    onRevoke: (token: string) => Promise<Invite[]>;
+
+    constructor(app: App, root: string, key: string | null, invites: Invite[], onRevoke: (token: string) => Promise<Invite[]>) {
+        super(app);
+        this.root = root;
+        this.key = key;
+        this.invites = invites;
+        this.onRevoke = onRevoke;
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    render() {
+        let { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Invites" });
+        if (this.invites.length == 0) {
+            contentEl.createEl("p", { text: "No live invites." });
+            return;
+        }
+        for (let invite of this.invites) {
+            let code = formatShareCode(this.root, invite.token, this.key);
+            new Setting(contentEl)
+                .setName(invite.role)
+                .setDesc("Created " + new Date(invite.created).toLocaleString())
+                .addButton(button => button
+                    .setButtonText("Copy code")
+                    .onClick(async () => {
+                        await navigator.clipboard.writeText(code);
+                        new Notice("Share code copied");
+                    }))
+                .addButton(button => button
+                    .setButtonText("Revoke")
+                    .setWarning()
+                    .onClick(async () => {
+                        try {
+                            this.invites = await this.onRevoke(invite.token);
+                            new Notice("Invite revoked");
+                        } catch (e) {
+                            new Notice("Failed to revoke invite");
+                            console.log("Failed to revoke invite", e);
+                        }
+                        this.render();
+                    }));
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Asks before leaving a shared folder. Owners can't get their token back, so they're told so.
+export class LeaveFolderModal extends Modal {
+    path: string;
+    owner: boolean;
+    onConfirm: () => Promise<void>;
+
+    constructor(app: App, path: string, owner: boolean, onConfirm: () => Promise<void>) {
+        super(app);
+        this.path = path;
+        this.owner = owner;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        let { contentEl, titleEl } = this;
+        titleEl.setText("Leave " + this.path + "?");
+        contentEl.createEl("p", { text: "The folder stops syncing on this device. Its files stay in the vault." });
+        if (this.owner) {
+            contentEl.createEl("p", { text: "You own this folder. Without an invite you won't be able to join it again." });
+        }
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText("Leave")
+                .setWarning()
+                .onClick(async () => {
+                    this.close();
+                    await this.onConfirm();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,213 @@
+import { ItemView, Setting, WorkspaceLeaf } from "obsidian"
+import { PresenceState } from "transport"
+import { timeAgo } from "status"
+import { JsonFileStore } from "json-store"
+
+export const ACTIVITY_VIEW = "soups-collab-activity";
+const ACTIVITY_STATE_VERSION = 1;
+const MAX_ENTRIES_PER_ROOT = 200;
+// another change by the same person to the same file this soon after updates their entry instead of adding one
+const COALESCE_MS = 5 * 60 * 1000;
+// entries the panel shows for the current note
+const MAX_NOTE_ENTRIES = 10;
+// the panel redraws this often on its own, for relative times
+const VIEW_REFRESH_MS = 30000;
+
+export interface ActivityEntry {
+    // path in the root at the time of the change
+    path: string,
+    // userId, null when the broker didn't say
+    author: string | null,
+    // ms since epoch
+    time: number
+}
+
+export interface ActivityState {
+    version: number,
+    // newest first, keyed by root id
+    roots: {[root: string]: ActivityEntry[]},
+    // display names from presence, so people are still named once they've gone offline
+    names: {[userId: string]: string}
+}
+
+// Who changed what in each shared root, as far as this device has seen
+export class ActivityLog {
+    roots: {[root: string]: ActivityEntry[]} = {};
+    names: {[userId: string]: string} = {};
+    // set on every change, cleared by whoever persists us
+    dirty = false;
+    listeners: (() => void)[] = [];
+
+    // returns a function that stops listening
+    onChange(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((other) => other !== listener);
+        };
+    }
+
+    private changed() {
+        this.dirty = true;
+        for (let listener of this.listeners) {
+            listener();
+        }
+    }
+
+    record(root: string, path: string, author: string | null, time = Date.now()) {
+        let entries = this.roots[root] || [];
+        let previous = entries.find((entry) => entry.path == path && entry.author == author && Math.abs(time - entry.time) < COALESCE_MS);
+        if (previous) {
+            entries = entries.filter((entry) => entry !== previous);
+            time = Math.max(time, previous.time);
+        }
+        entries.push({ path: path, author: author, time: time });
+        this.roots[root] = entries.sort((a, b) => b.time - a.time).slice(0, MAX_ENTRIES_PER_ROOT);
+        this.changed();
+    }
+
+    rememberNames(peers: PresenceState[]) {
+        let learned = false;
+        for (let peer of peers) {
+            if (peer.displayName && this.names[peer.userId] !== peer.displayName) {
+                this.names[peer.userId] = peer.displayName;
+                learned = true;
+            }
+        }
+        if (learned) {
+            this.changed();
+        }
+    }
+
+    // newest first
+    list(root: string) {
+        return this.roots[root] || [];
+    }
+
+    listForPath(root: string, path: string) {
+        return this.list(root).filter((entry) => entry.path == path);
+    }
+
+    forget(root: string) {
+        if (root in this.roots) {
+            delete this.roots[root];
+            this.changed();
+        }
+    }
+
+    toState(): ActivityState {
+        return { version: ACTIVITY_STATE_VERSION, roots: this.roots, names: this.names };
+    }
+
+    loadState(state: ActivityState) {
+        this.roots = state.roots || {};
+        this.names = state.names || {};
+        this.dirty = false;
+    }
+}
+
+// Reads and writes the activity log next to the sync state
+export class ActivityStore extends JsonFileStore<ActivityState> {
+    migrate(state: ActivityState) {
+        if (state?.version !== ACTIVITY_STATE_VERSION) {
+            console.log("Unknown activity log version, starting fresh", state?.version);
+            return null;
+        }
+        return state;
+    }
+}
+
+export interface ActivityRoot {
+    // the key in sharedFolders
+    folder: string,
+    root: string,
+    // the active note's path in the root, null when it's somewhere else
+    activePath: string | null
+}
+
+// What the panel needs from the plugin
+export interface ActivitySource {
+    activity: ActivityLog;
+    // the one holding the active note first
+    getActivityRoots(): ActivityRoot[];
+    describeAuthor(author: string | null): string;
+    openSharedFile(folder: string, path: string): Promise<void>;
+}
+
+function basename(path: string) {
+    return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// Sidebar panel with the changes to the current note, then everything recent in each shared folder
+export class ActivityView extends ItemView {
+    source: ActivitySource;
+    stopListening: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, source: ActivitySource) {
+        super(leaf);
+        this.source = source;
+    }
+
+    getViewType() {
+        return ACTIVITY_VIEW;
+    }
+
+    getDisplayText() {
+        return "Shared folder activity";
+    }
+
+    getIcon() {
+        return "users";
+    }
+
+    async onOpen() {
+        this.stopListening = this.source.activity.onChange(() => this.render());
+        this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.render()));
+        this.registerInterval(window.setInterval(() => this.render(), VIEW_REFRESH_MS));
+        this.render();
+    }
+
+    async onClose() {
+        this.stopListening?.();
+    }
+
+    render() {
+        let container = this.contentEl;
+        container.empty();
+        let roots = this.source.getActivityRoots();
+        if (roots.length == 0) {
+            container.createEl("p", { text: "No shared folders yet." });
+            return;
+        }
+        let active = roots[0].activePath != null ? roots[0] : null;
+        if (active) {
+            let section = container.createDiv({ cls: "collab-activity-section" });
+            new Setting(section).setName(basename(active.activePath!)).setHeading();
+            let entries = this.source.activity.listForPath(active.root, active.activePath!).slice(0, MAX_NOTE_ENTRIES);
+            if (entries.length == 0) {
+                section.createEl("p", { cls: "collab-activity-empty", text: "No changes seen yet." });
+            }
+            for (let entry of entries) {
+                new Setting(section)
+                    .setName(this.source.describeAuthor(entry.author))
+                    .setDesc(timeAgo(entry.time));
+            }
+        }
+        for (let root of roots) {
+            let section = container.createDiv({ cls: "collab-activity-section" });
+            new Setting(section).setName(root.folder).setHeading();
+            let entries = this.source.activity.list(root.root);
+            if (entries.length == 0) {
+                section.createEl("p", { cls: "collab-activity-empty", text: "No changes seen yet." });
+            }
+            for (let entry of entries) {
+                new Setting(section)
+                    .setName(this.source.describeAuthor(entry.author) + " edited " + basename(entry.path))
+                    .setDesc(timeAgo(entry.time) + ", " + entry.path)
+                    .addExtraButton(button => button
+                        .setIcon("file-text")
+                        .setTooltip("Open")
+                        .onClick(() => this.source.openSharedFile(root.folder, entry.path)));
+            }
+        }
+    }
+}
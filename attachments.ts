@@ -0,0 +1,26 @@
+// Non-text files skip the diff-match-patch pipeline and sync whole, as content-addressed blobs
+
+const ATTACHMENT_EXTENSIONS = [
+    // images
+    "png", "jpg", "jpeg", "gif", "bmp", "webp", "svg", "avif", "ico", "tif", "tiff",
+    // documents
+    "pdf", "docx", "xlsx", "pptx", "odt", "ods", "odp", "epub",
+    // audio and video
+    "mp3", "wav", "m4a", "ogg", "flac", "webm", "3gp", "mp4", "mov", "mkv", "ogv",
+    // archives and the rest
+    "zip", "gz", "tar", "7z"
+];
+
+// attachments bigger than this stay local
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+export function isAttachment(path: string) {
+    let name = path.split("/").pop()!.toLowerCase();
+    let dot = name.lastIndexOf(".");
+    return dot >= 0 && ATTACHMENT_EXTENSIONS.includes(name.slice(dot + 1));
+}
+
+export async function sha256Hex(data: ArrayBuffer) {
+    let digest = await window.crypto.subtle.digest("SHA-256", data);
+    return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
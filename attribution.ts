@@ -0,0 +1,84 @@
+import { Annotation, Extension, RangeSet, StateField } from "@codemirror/state";
+import { EditorView, GutterMarker, gutter } from "@codemirror/view";
+import { userColor } from "presence"
+
+// lines keep their marker this long after someone else changed them
+const RECENT_CHANGE_MS = 10 * 60 * 1000;
+
+export interface ChangeAuthor {
+    // null when the broker didn't say, or when several people's changes came in together
+    userId: string | null,
+    name: string
+}
+
+// set on the transactions applyRemoteText dispatches, so their lines can be marked
+export const remoteAuthor = Annotation.define<ChangeAuthor>();
+
+class AuthorMarker extends GutterMarker {
+    author: ChangeAuthor;
+    // ms since epoch
+    time: number;
+
+    constructor(author: ChangeAuthor, time: number) {
+        super();
+        this.author = author;
+        this.time = time;
+    }
+
+    eq(other: AuthorMarker) {
+        return other.author.userId == this.author.userId && other.author.name == this.author.name && other.time == this.time;
+    }
+
+    toDOM() {
+        let marker = document.createElement("div");
+        marker.className = "collab-author-marker";
+        if (this.author.userId) {
+            marker.style.backgroundColor = userColor(this.author.userId);
+        }
+        marker.title = this.author.name + ", " + new Date(this.time).toLocaleTimeString();
+        return marker;
+    }
+}
+
+// Markers sit at the start of their line, the gutter only looks there. They're rebuilt on every edit so they
+// stay put when lines move, and old ones are dropped then too.
+const authorLineField = StateField.define<RangeSet<AuthorMarker>>({
+    create() {
+        return RangeSet.empty;
+    },
+    update(markers, tr) {
+        if (!tr.docChanged) {
+            return markers;
+        }
+        let doc = tr.state.doc;
+        let now = Date.now();
+        let byLine = new Map<number, AuthorMarker>();
+        let cursor = markers.map(tr.changes).iter();
+        for (; cursor.value; cursor.next()) {
+            if (now - cursor.value.time < RECENT_CHANGE_MS) {
+                byLine.set(doc.lineAt(cursor.from).from, cursor.value);
+            }
+        }
+        let author = tr.annotation(remoteAuthor);
+        if (author) {
+            let marker = new AuthorMarker(author, now);
+            tr.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+                for (let line = doc.lineAt(fromB).number; line <= doc.lineAt(toB).number; line++) {
+                    byLine.set(doc.line(line).from, marker);
+                }
+            });
+        }
+        return RangeSet.of([...byLine.entries()].map(([from, marker]) => marker.range(from)), true);
+    }
+});
+
+// colors the lines someone else changed recently in their presence color
+export function authorGutter(): Extension {
+    return [
+        authorLineField,
+        gutter({
+            class: "collab-author-gutter",
+            markers: (view: EditorView) => view.state.field(authorLineField)
+        })
+    ];
+}
@@ -0,0 +1,69 @@
+import { App } from "obsidian"
+import { BrokerEvent } from "transport"
+import { SyncUtil, createTransport } from "sync-util"
+import { PushChannel } from "push-channel"
+
+export interface Broker {
+    endpoint: string,
+    syncUtil: SyncUtil,
+    pushChannel: PushChannel,
+    // couldn't be reached last time we tried, its folders wait for it without holding up the others
+    offline: boolean
+}
+
+export interface ConnectionCheck {
+    ok: boolean,
+    // round trip in ms, or what went wrong
+    message: string
+}
+
+// One SyncUtil and push channel per broker endpoint. Shared folders may live on different brokers,
+// each with its own user id, tokens and connection state.
+export class BrokerPool {
+    app: App;
+    brokers: {[endpoint: string]: Broker} = {};
+    onEvent: (event: BrokerEvent) => void;
+    onLive: (root: string) => void;
+
+    constructor(app: App, onEvent: (event: BrokerEvent) => void, onLive: (root: string) => void) {
+        this.app = app;
+        this.onEvent = onEvent;
+        this.onLive = onLive;
+    }
+
+    get(endpoint: string, userId: string | null = null) {
+        let broker = this.brokers[endpoint];
+        if (!broker) {
+            let syncUtil = new SyncUtil(this.app, createTransport(endpoint), userId);
+            broker = { endpoint: endpoint, syncUtil: syncUtil, pushChannel: new PushChannel(syncUtil, this.onEvent, this.onLive), offline: false };
+            this.brokers[endpoint] = broker;
+        }
+        return broker;
+    }
+
+    // drops brokers no shared folder uses anymore, which is how a changed endpoint takes effect right away
+    retain(endpoints: string[]) {
+        for (let endpoint of Object.keys(this.brokers)) {
+            if (!endpoints.includes(endpoint)) {
+                this.brokers[endpoint].pushChannel.closeAll();
+                delete this.brokers[endpoint];
+            }
+        }
+    }
+
+    closeAll() {
+        this.retain([]);
+    }
+}
+
+// Any answer means the broker is there, only a failed request or a gateway error means it isn't. Asks for a root
+// that can't exist, which every broker answers without needing credentials.
+export async function checkConnection(endpoint: string): Promise<ConnectionCheck> {
+    let started = Date.now();
+    try {
+        await createTransport(endpoint).getRoot({ root: "connection-check", userId: null, secretKey: null });
+        return { ok: true, message: "Reachable (" + (Date.now() - started) + " ms)" };
+    } catch (e) {
+        return { ok: false, message: String(e.message || e) };
+    }
+}
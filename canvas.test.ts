@@ -0,0 +1,69 @@
+import { isCanvas, mergeCanvas, parseCanvas, serializeCanvas } from "canvas"
+
+function canvas(nodes: object[], edges: object[] = []) {
+    return JSON.stringify({ nodes: nodes, edges: edges }, null, "\t");
+}
+
+function node(id: string, text: string, x = 0) {
+    return { id: id, type: "text", text: text, x: x, y: 0, width: 100, height: 100 };
+}
+
+describe("canvas", () => {
+    test("recognizes canvases by extension", () => {
+        expect(isCanvas("board.canvas")).toBe(true);
+        expect(isCanvas("Board.CANVAS")).toBe(true);
+        expect(isCanvas("board.md")).toBe(false);
+    });
+
+    test("empty files are empty canvases, broken ones aren't canvases", () => {
+        expect(parseCanvas("")).toEqual({ nodes: [], edges: [] });
+        expect(parseCanvas("{\"nodes\": [")).toBeNull();
+        expect(parseCanvas("[]")).toBeNull();
+        expect(parseCanvas("{\"nodes\": [{\"x\": 1}]}")).toBeNull();
+    });
+
+    test("serializes the way obsidian does", () => {
+        let data = { nodes: [node("a", "hi")], edges: [] };
+        expect(serializeCanvas(data)).toBe(JSON.stringify(data, null, "\t"));
+    });
+
+    test("nodes added on both sides are all kept, remote's first", () => {
+        let base = canvas([node("a", "one")]);
+        let merge = mergeCanvas(base, canvas([node("a", "one"), node("b", "two")]), canvas([node("a", "one"), node("c", "three")]));
+        expect(merge.clean).toBe(true);
+        expect(parseCanvas(merge.content!)!.nodes.map((item) => item.id)).toEqual(["a", "c", "b"]);
+    });
+
+    test("different fields of one node merge, text merges as text", () => {
+        let base = canvas([node("a", "first line\nsecond line")]);
+        let local = canvas([node("a", "first line!\nsecond line", 50)]);
+        let remote = canvas([node("a", "first line\nsecond line!")]);
+        let merged = parseCanvas(mergeCanvas(base, local, remote).content!)!;
+        expect(merged.nodes[0]).toEqual(node("a", "first line!\nsecond line!", 50));
+    });
+
+    test("overlapping text edits fail the merge", () => {
+        let base = canvas([node("a", "the cat")]);
+        expect(mergeCanvas(base, canvas([node("a", "the dog")]), canvas([node("a", "the bird")]))).toEqual({ clean: false, content: null });
+    });
+
+    test("a deleted node takes its edges along", () => {
+        let edge = { id: "e", fromNode: "a", toNode: "b" };
+        let base = canvas([node("a", "one"), node("b", "two")], [edge]);
+        let local = canvas([node("a", "one")], []);
+        let remote = canvas([node("a", "one"), node("b", "two")], [edge]);
+        let merged = parseCanvas(mergeCanvas(base, local, remote).content!)!;
+        expect(merged.nodes.map((item) => item.id)).toEqual(["a"]);
+        expect(merged.edges).toEqual([]);
+    });
+
+    test("an edit beats a delete", () => {
+        let base = canvas([node("a", "one")]);
+        let merged = parseCanvas(mergeCanvas(base, canvas([]), canvas([node("a", "one, edited")])).content!)!;
+        expect(merged.nodes).toEqual([node("a", "one, edited")]);
+    });
+
+    test("unreadable sides can't be merged", () => {
+        expect(mergeCanvas("", "not json", canvas([])).clean).toBe(false);
+    });
+});
@@ -0,0 +1,122 @@
+import { MergeResult, threeWayMerge } from "merge"
+
+// Canvas files are JSON, character merges of two edits can easily break them. These get merged as data instead:
+// nodes and edges by id, their fields three-way, and the result written back the way obsidian writes canvases.
+
+type CanvasItem = {id: string, [key: string]: unknown};
+interface CanvasData {
+    nodes: CanvasItem[],
+    edges: CanvasItem[],
+    [key: string]: unknown
+}
+
+export function isCanvas(path: string) {
+    return path.toLowerCase().endsWith(".canvas");
+}
+
+// null when it isn't a canvas we can work with. Empty files are empty canvases, that's how new ones start out.
+export function parseCanvas(text: string): CanvasData | null {
+    if (text.trim() == "") {
+        return { nodes: [], edges: [] };
+    }
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        return null;
+    }
+    if (typeof data != "object" || data == null || Array.isArray(data)) {
+        return null;
+    }
+    let canvas = data as CanvasData;
+    for (let key of ["nodes", "edges"]) {
+        let items = canvas[key] ?? [];
+        if (!Array.isArray(items) || !items.every((item) => typeof item == "object" && item != null && typeof item.id == "string")) {
+            return null;
+        }
+        canvas[key] = items;
+    }
+    return canvas;
+}
+
+export function serializeCanvas(canvas: CanvasData) {
+    return JSON.stringify(canvas, null, "\t");
+}
+
+function same(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Field by field: a side that left a field alone takes the other side's change. When both changed it
+// differently local wins, it's the one syncing now so it wrote last. Text gets a real merge, a conflict there fails the whole merge.
+function mergeFields(base: {[key: string]: unknown}, local: {[key: string]: unknown}, remote: {[key: string]: unknown}, skip: string[] = []) {
+    let merged: {[key: string]: unknown} = {};
+    for (let key of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+        if (skip.includes(key)) {
+            continue;
+        }
+        let [b, l, r] = [base[key], local[key], remote[key]];
+        let value: unknown;
+        if (same(l, r) || same(l, b)) {
+            value = r;
+        } else if (same(r, b)) {
+            value = l;
+        } else if (key == "text" && typeof b == "string" && typeof l == "string" && typeof r == "string") {
+            let text = threeWayMerge(b, l, r);
+            if (!text.clean) {
+                return null;
+            }
+            value = text.content;
+        } else {
+            value = l;
+        }
+        if (value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+// Remote's order first, since it's what everyone else already sees, then whatever only local has.
+// Order matters, later nodes are drawn on top.
+function mergeItems(base: CanvasItem[], local: CanvasItem[], remote: CanvasItem[]) {
+    let byId = (items: CanvasItem[]) => new Map(items.map((item) => [item.id, item]));
+    let [baseItems, localItems, remoteItems] = [byId(base), byId(local), byId(remote)];
+    let ids = [...remoteItems.keys(), ...[...localItems.keys()].filter((id) => !remoteItems.has(id))];
+    let merged: CanvasItem[] = [];
+    for (let id of ids) {
+        let [b, l, r] = [baseItems.get(id), localItems.get(id), remoteItems.get(id)];
+        if (!l || !r) {
+            // gone on one side: stays gone unless the other side changed it since, edits beat deletes
+            let kept = l || r!;
+            if (!b || !same(kept, b)) {
+                merged.push(kept);
+            }
+            continue;
+        }
+        let item = mergeFields(b || {}, l, r);
+        if (!item) {
+            return null;
+        }
+        merged.push(item as CanvasItem);
+    }
+    return merged;
+}
+
+export function mergeCanvas(base: string, local: string, remote: string): MergeResult {
+    let [baseCanvas, localCanvas, remoteCanvas] = [parseCanvas(base), parseCanvas(local), parseCanvas(remote)];
+    if (!localCanvas || !remoteCanvas) {
+        return { clean: false, content: null };
+    }
+    baseCanvas = baseCanvas || { nodes: [], edges: [] };
+    let nodes = mergeItems(baseCanvas.nodes, localCanvas.nodes, remoteCanvas.nodes);
+    let edges = mergeItems(baseCanvas.edges, localCanvas.edges, remoteCanvas.edges);
+    let rest = mergeFields(baseCanvas, localCanvas, remoteCanvas, ["nodes", "edges"]);
+    if (!nodes || !edges || !rest) {
+        return { clean: false, content: null };
+    }
+    // an edge whose node was deleted on the other side would leave obsidian drawing into nothing
+    let nodeIds = new Set(nodes.map((node) => node.id));
+    edges = edges.filter((edge) => nodeIds.has(edge.fromNode as string) && nodeIds.has(edge.toNode as string));
+    return { clean: true, content: serializeCanvas({ nodes: nodes, edges: edges, ...rest }) };
+}
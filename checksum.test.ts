@@ -0,0 +1,17 @@
+import { md5 } from "checksum"
+
+describe("md5", () => {
+    test("matches the reference digests", () => {
+        expect(md5("")).toBe("d41d8cd98f00b204e9800998ecf8427e");
+        expect(md5("hello")).toBe("5d41402abc4b2a76b9719d911017c592");
+        expect(md5("The quick brown fox jumps over the lazy dog")).toBe("9e107d9d372bb6826bd81d3542a419d6");
+    });
+
+    test("hashes the utf-8 bytes", () => {
+        expect(md5("é")).toBe("66ddcd97cfdeabb2f6fb8a999b4bc76f");
+    });
+
+    test("handles input longer than one block", () => {
+        expect(md5("a".repeat(1000))).toBe("cabe45dcc9ae5b66ba86600cca6b8ba8");
+    });
+});
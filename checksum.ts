@@ -0,0 +1,67 @@
+// MD5 in plain TypeScript. Web Crypto has no MD5 and Node's crypto isn't there on mobile,
+// but the broker compares shadows by the md5 hex of their UTF-8 bytes.
+
+// per-round left rotations
+const SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+// floor(abs(sin(i + 1)) * 2^32)
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+let encoder = new TextEncoder();
+
+function md5Bytes(input: Uint8Array) {
+    // pad with a 1 bit, zeros up to 56 bytes mod 64, then the bit length as 64 bits little endian
+    let length = ((input.length + 8) >>> 6) * 64 + 64;
+    let bytes = new Uint8Array(length);
+    bytes.set(input);
+    bytes[input.length] = 0x80;
+    let view = new DataView(bytes.buffer);
+    view.setUint32(length - 8, (input.length * 8) >>> 0, true);
+    view.setUint32(length - 4, Math.floor(input.length / 0x20000000), true);
+
+    let a0 = 0x67452301, b0 = 0xefcdab89 | 0, c0 = 0x98badcfe | 0, d0 = 0x10325476;
+    let words = new Array<number>(16);
+    for (let offset = 0; offset < length; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            words[i] = view.getUint32(offset + i * 4, true) | 0;
+        }
+        let a = a0, b = b0, c = c0, d = d0;
+        for (let i = 0; i < 64; i++) {
+            let f: number, g: number;
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+            let sum = (a + f + CONSTANTS[i] + words[g]) | 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+        }
+        a0 = (a0 + a) | 0;
+        b0 = (b0 + b) | 0;
+        c0 = (c0 + c) | 0;
+        d0 = (d0 + d) | 0;
+    }
+
+    let digest = new DataView(new ArrayBuffer(16));
+    [a0, b0, c0, d0].forEach((word, i) => digest.setUint32(i * 4, word, true));
+    return new Uint8Array(digest.buffer);
+}
+
+export function md5(contents: string) {
+    return Array.from(md5Bytes(encoder.encode(contents))).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
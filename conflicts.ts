@@ -0,0 +1,151 @@
+import { App, FuzzySuggestModal, Modal, Setting } from "obsidian"
+import { DiffMatchPatch, DiffOperation } from "diff-match-patch-typescript";
+import { ConflictRecord } from "file-cache"
+
+// A run of text both versions agree on, or a hunk where they differ
+type DiffSegment = { kind: "equal", text: string } | { kind: "hunk", theirs: string, mine: string };
+
+// Where the losing local version of a note gets saved, next to the note
+export function conflictCopyPath(path: string, when: number) {
+    let stamp = new Date(when).toISOString().slice(0, 16).replace("T", " ").replace(":", "");
+    let slash = path.lastIndexOf("/");
+    let dot = path.lastIndexOf(".");
+    if (dot <= slash) {
+        return path + " (conflict " + stamp + ")";
+    }
+    return path.slice(0, dot) + " (conflict " + stamp + ")" + path.slice(dot);
+}
+
+export function getDiffSegments(diffy: DiffMatchPatch, theirs: string, mine: string): DiffSegment[] {
+    let diffs = diffy.diff_main(theirs, mine);
+    diffy.diff_cleanupSemantic(diffs);
+    let segments: DiffSegment[] = [];
+    for (let [op, text] of diffs) {
+        let last = segments[segments.length - 1];
+        if (op == DiffOperation.DIFF_EQUAL) {
+            segments.push({ kind: "equal", text: text });
+        } else if (last && last.kind == "hunk") {
+            // consecutive deletes and inserts form one hunk
+            if (op == DiffOperation.DIFF_DELETE) {
+                last.theirs += text;
+            } else {
+                last.mine += text;
+            }
+        } else if (op == DiffOperation.DIFF_DELETE) {
+            segments.push({ kind: "hunk", theirs: text, mine: "" });
+        } else {
+            segments.push({ kind: "hunk", theirs: "", mine: text });
+        }
+    }
+    return segments;
+}
+
+// Shows both versions as an inline diff. Clicking a hunk switches which side it's taken from.
+export class ConflictModal extends Modal {
+    conflict: ConflictRecord;
+    theirs: string;
+    diffy: DiffMatchPatch;
+    // called with the text to keep, null to keep the current (remote) version
+    onResolve: (content: string | null) => Promise<void>;
+
+    constructor(app: App, conflict: ConflictRecord, theirs: string, diffy: DiffMatchPatch, onResolve: (content: string | null) => Promise<void>) {
+        super(app);
+        this.conflict = conflict;
+        this.theirs = theirs;
+        this.diffy = diffy;
+        this.onResolve = onResolve;
+    }
+
+    onOpen() {
+        let { contentEl, titleEl } = this;
+        titleEl.setText("Conflict in " + this.conflict.path);
+        contentEl.createEl("p", {
+            text: "Your version was saved to " + this.conflict.copyPath + ". Struck out text is left out, click a hunk to switch between their text and yours.",
+        });
+
+        let segments = getDiffSegments(this.diffy, this.theirs, this.conflict.mine);
+        // per hunk, true when we take our side
+        let useMine: boolean[] = [];
+        let diffEl = contentEl.createDiv({ cls: "collab-diff" });
+        for (let segment of segments) {
+            if (segment.kind == "equal") {
+                diffEl.createSpan({ text: segment.text });
+                continue;
+            }
+            let index = useMine.length;
+            useMine.push(false);
+            let hunkEl = diffEl.createSpan({ cls: "collab-diff-hunk" });
+            if (segment.theirs) {
+                hunkEl.createSpan({ cls: "collab-diff-theirs", text: segment.theirs });
+            }
+            if (segment.mine) {
+                hunkEl.createSpan({ cls: "collab-diff-mine", text: segment.mine });
+            }
+            hunkEl.onClickEvent(() => {
+                useMine[index] = !useMine[index];
+                hunkEl.toggleClass("is-mine", useMine[index]);
+            });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Keep mine")
+                .onClick(async () => {
+                    await this.resolve(this.conflict.mine);
+                }))
+            .addButton(button => button
+                .setButtonText("Keep theirs")
+                .onClick(async () => {
+                    await this.resolve(null);
+                }))
+            .addButton(button => button
+                .setButtonText("Merge hunks")
+                .setCta()
+                .onClick(async () => {
+                    let merged = "";
+                    let hunk = 0;
+                    for (let segment of segments) {
+                        if (segment.kind == "equal") {
+                            merged += segment.text;
+                        } else {
+                            merged += useMine[hunk++] ? segment.mine : segment.theirs;
+                        }
+                    }
+                    await this.resolve(merged);
+                }));
+    }
+
+    async resolve(content: string | null) {
+        this.close();
+        await this.onResolve(content);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Command palette list of unresolved conflicts
+export class ConflictListModal extends FuzzySuggestModal<ConflictRecord> {
+    conflicts: ConflictRecord[];
+    onChoose: (conflict: ConflictRecord) => void;
+
+    constructor(app: App, conflicts: ConflictRecord[], onChoose: (conflict: ConflictRecord) => void) {
+        super(app);
+        this.conflicts = conflicts;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Pick a conflict to resolve");
+    }
+
+    getItems() {
+        return this.conflicts;
+    }
+
+    getItemText(conflict: ConflictRecord) {
+        return conflict.path + " (" + new Date(conflict.detected).toLocaleString() + ")";
+    }
+
+    onChooseItem(conflict: ConflictRecord) {
+        this.onChoose(conflict);
+    }
+}
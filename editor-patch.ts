@@ -0,0 +1,99 @@
+import { App, Editor, MarkdownView, TFile } from "obsidian"
+import { Transaction } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { DiffMatchPatch, DiffOperation } from "diff-match-patch-typescript";
+import { ChangeAuthor, remoteAuthor } from "attribution"
+
+// A replacement of [from, to) in the old text with insert
+interface TextChange {
+    from: number,
+    to: number,
+    insert: string
+}
+
+// The editor showing file, if it's open in an editable markdown view
+export function getOpenEditor(app: App, file: TFile): Editor | null {
+    for (let leaf of app.workspace.getLeavesOfType("markdown")) {
+        let view = leaf.view;
+        if (view instanceof MarkdownView && view.file?.path === file.path && view.getMode() === "source") {
+            return view.editor;
+        }
+    }
+    return null;
+}
+
+// Minimal set of changes turning oldText into newText, in oldText coordinates
+export function getTextChanges(diffy: DiffMatchPatch, oldText: string, newText: string): TextChange[] {
+    let diffs = diffy.diff_main(oldText, newText);
+    diffy.diff_cleanupEfficiency(diffs);
+    let changes: TextChange[] = [];
+    let index = 0;
+    for (let [op, text] of diffs) {
+        if (op == DiffOperation.DIFF_EQUAL) {
+            index += text.length;
+            continue;
+        }
+        let last = changes[changes.length - 1];
+        // a delete followed by an insert at the same spot is one replacement
+        let change = last && last.to == index ? last : null;
+        if (!change) {
+            change = { from: index, to: index, insert: "" };
+            changes.push(change);
+        }
+        if (op == DiffOperation.DIFF_DELETE) {
+            index += text.length;
+            change.to = index;
+        } else {
+            change.insert += text;
+        }
+    }
+    return changes;
+}
+
+// Where offset ends up after changes, staying after text inserted right at it
+function mapOffset(offset: number, changes: TextChange[]) {
+    let mapped = offset;
+    for (let change of changes) {
+        if (change.from > offset) {
+            break;
+        }
+        if (change.to <= offset) {
+            mapped += change.insert.length - (change.to - change.from);
+        } else {
+            // inside a deleted range, land at the end of the replacement
+            mapped += change.from + change.insert.length - offset;
+        }
+    }
+    return mapped;
+}
+
+// Apply a remote update to an open editor without swapping the whole buffer.
+// The local selection follows the text around it and the change stays out of the undo history.
+// author, when known, is who the change gets attributed to in the gutter.
+export function applyRemoteText(editor: Editor, diffy: DiffMatchPatch, newText: string, author: ChangeAuthor | null = null) {
+    let changes = getTextChanges(diffy, editor.getValue(), newText);
+    if (changes.length == 0) {
+        return;
+    }
+    // obsidian doesn't expose the codemirror view in its types
+    let cm = (editor as unknown as { cm?: EditorView }).cm;
+    if (cm) {
+        // codemirror maps the selection through the changes on its own
+        let annotations = [Transaction.addToHistory.of(false), Transaction.remote.of(true)];
+        cm.dispatch({
+            changes: changes,
+            annotations: author ? [...annotations, remoteAuthor.of(author)] : annotations
+        });
+        return;
+    }
+    let anchor = mapOffset(editor.posToOffset(editor.getCursor("anchor")), changes);
+    let head = mapOffset(editor.posToOffset(editor.getCursor("head")), changes);
+    editor.transaction({
+        changes: changes.map((change) => ({
+            from: editor.offsetToPos(change.from),
+            to: editor.offsetToPos(change.to),
+            text: change.insert
+        }))
+    });
+    editor.setSelection(editor.offsetToPos(anchor), editor.offsetToPos(head));
+}
@@ -0,0 +1,66 @@
+import { RootCipher, randomSalt } from "encryption"
+
+let encoder = new TextEncoder();
+
+describe("RootCipher", () => {
+    test("seals and opens text", async () => {
+        let cipher = await RootCipher.random(false);
+        let sealed = await cipher.seal("meeting notes");
+        expect(sealed).not.toContain("meeting");
+        expect(await cipher.open(sealed)).toBe("meeting notes");
+        // a fresh iv every time
+        expect(await cipher.seal("meeting notes")).not.toBe(sealed);
+    });
+
+    test("the exported key opens what it sealed", async () => {
+        let cipher = await RootCipher.random(false);
+        let other = await RootCipher.fromKey(cipher.exportKey(), false);
+        expect(await other.open(await cipher.seal("hello"))).toBe("hello");
+        expect(await other.keyCheck()).toBe(await cipher.keyCheck());
+    });
+
+    test("the same passphrase and salt derive the same key", async () => {
+        let salt = randomSalt();
+        let first = await RootCipher.fromPassphrase("correct horse", salt, false);
+        let second = await RootCipher.fromPassphrase("correct horse", salt, false);
+        let wrong = await RootCipher.fromPassphrase("battery staple", salt, false);
+        expect(second.exportKey()).toBe(first.exportKey());
+        expect(await wrong.keyCheck()).not.toBe(await first.keyCheck());
+    });
+
+    test("another key can't open it", async () => {
+        let cipher = await RootCipher.random(false);
+        let other = await RootCipher.random(false);
+        await expect(other.open(await cipher.seal("hello"))).rejects.toThrow();
+    });
+
+    test("checksums are keyed", async () => {
+        let cipher = await RootCipher.random(false);
+        let other = await RootCipher.random(false);
+        expect(await cipher.checksum("hello")).toBe(await cipher.checksum("hello"));
+        expect(await other.checksum("hello")).not.toBe(await cipher.checksum("hello"));
+    });
+
+    test("paths are sealed segment by segment, the same way every time", async () => {
+        let cipher = await RootCipher.random(true);
+        let sealed = await cipher.sealPath("projects/plan.md");
+        expect(sealed.split("/")).toHaveLength(2);
+        expect(sealed).not.toContain("plan");
+        expect(await cipher.sealPath("projects/plan.md")).toBe(sealed);
+        expect((await cipher.sealPath("projects/other.md")).split("/")[0]).toBe(sealed.split("/")[0]);
+        expect(await cipher.openPath(sealed)).toBe("projects/plan.md");
+    });
+
+    test("paths stay readable unless they're encrypted too", async () => {
+        let cipher = await RootCipher.random(false);
+        expect(await cipher.sealPath("projects/plan.md")).toBe("projects/plan.md");
+    });
+
+    test("deterministic sealing gives the same bytes for the same data", async () => {
+        let cipher = await RootCipher.random(false);
+        let data = encoder.encode("attachment").buffer;
+        let sealed = await cipher.sealBytesDeterministic(data);
+        expect(Buffer.from(await cipher.sealBytesDeterministic(data))).toEqual(Buffer.from(sealed));
+        expect(new TextDecoder().decode(await cipher.openBytes(sealed))).toBe("attachment");
+    });
+});
@@ -0,0 +1,176 @@
+import { App, Modal, Setting, arrayBufferToBase64, base64ToArrayBuffer } from "obsidian"
+
+const PBKDF2_ITERATIONS = 310000;
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+// what the key check is a checksum of, so joiners can tell a wrong passphrase apart from a broken file
+const KEY_CHECK_TEXT = "soups-collab key check";
+
+let encoder = new TextEncoder();
+let decoder = new TextDecoder();
+
+// base64 without the characters that mean something in paths
+function toBase64Url(data: ArrayBuffer) {
+    return arrayBufferToBase64(data).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+    let base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+    return base64ToArrayBuffer(base64 + "=".repeat((4 - base64.length % 4) % 4));
+}
+
+function concat(first: ArrayBuffer, second: ArrayBuffer) {
+    let joined = new Uint8Array(first.byteLength + second.byteLength);
+    joined.set(new Uint8Array(first), 0);
+    joined.set(new Uint8Array(second), first.byteLength);
+    return joined.buffer;
+}
+
+export function randomSalt() {
+    return toBase64Url(window.crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
+// Encrypts everything of a root that leaves the client: AES-GCM for content, keyed HMAC checksums the broker
+// can compare without reading anything, and optionally each path segment. Both keys come out of one root key.
+export class RootCipher {
+    rawKey: ArrayBuffer;
+    contentKey: CryptoKey;
+    macKey: CryptoKey;
+    encryptPaths: boolean;
+
+    private constructor(rawKey: ArrayBuffer, contentKey: CryptoKey, macKey: CryptoKey, encryptPaths: boolean) {
+        this.rawKey = rawKey;
+        this.contentKey = contentKey;
+        this.macKey = macKey;
+        this.encryptPaths = encryptPaths;
+    }
+
+    static async fromRawKey(rawKey: ArrayBuffer, encryptPaths: boolean) {
+        let subtle = window.crypto.subtle;
+        let base = await subtle.importKey("raw", rawKey, "HKDF", false, ["deriveKey"]);
+        let derive = (info: string, algorithm: AesKeyGenParams | HmacImportParams, usages: KeyUsage[]) => subtle.deriveKey(
+            { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode(info) },
+            base, algorithm, false, usages
+        );
+        let contentKey = await derive("content", { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]);
+        let macKey = await derive("mac", { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign"]);
+        return new RootCipher(rawKey, contentKey, macKey, encryptPaths);
+    }
+
+    static async fromKey(key: string, encryptPaths: boolean) {
+        return RootCipher.fromRawKey(fromBase64Url(key), encryptPaths);
+    }
+
+    static async fromPassphrase(passphrase: string, salt: string, encryptPaths: boolean) {
+        let subtle = window.crypto.subtle;
+        let base = await subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+        let rawKey = await subtle.deriveBits(
+            { name: "PBKDF2", hash: "SHA-256", salt: fromBase64Url(salt), iterations: PBKDF2_ITERATIONS },
+            base, KEY_BYTES * 8
+        );
+        return RootCipher.fromRawKey(rawKey, encryptPaths);
+    }
+
+    static async random(encryptPaths: boolean) {
+        return RootCipher.fromRawKey(window.crypto.getRandomValues(new Uint8Array(KEY_BYTES)).buffer, encryptPaths);
+    }
+
+    // the root key, for settings and share codes
+    exportKey() {
+        return toBase64Url(this.rawKey);
+    }
+
+    private async mac(data: ArrayBuffer | Uint8Array) {
+        return window.crypto.subtle.sign("HMAC", this.macKey, data);
+    }
+
+    // keyed, so the broker can compare checksums but can't confirm a guess at the content
+    async checksum(text: string) {
+        return toBase64Url(await this.mac(encoder.encode(text)));
+    }
+
+    async keyCheck() {
+        return this.checksum(KEY_CHECK_TEXT);
+    }
+
+    // random iv unless one is given, the iv travels in front of the ciphertext
+    async sealBytes(data: ArrayBuffer, iv: ArrayBuffer | null = null) {
+        iv = iv || window.crypto.getRandomValues(new Uint8Array(IV_BYTES)).buffer;
+        let sealed = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv: iv }, this.contentKey, data);
+        return concat(iv, sealed);
+    }
+
+    async openBytes(data: ArrayBuffer) {
+        return window.crypto.subtle.decrypt({ name: "AES-GCM", iv: data.slice(0, IV_BYTES) }, this.contentKey, data.slice(IV_BYTES));
+    }
+
+    // the same data always seals to the same bytes, so content addressing still works for attachments
+    async sealBytesDeterministic(data: ArrayBuffer) {
+        return this.sealBytes(data, (await this.mac(data)).slice(0, IV_BYTES));
+    }
+
+    async seal(text: string) {
+        return toBase64Url(await this.sealBytes(encoder.encode(text).buffer));
+    }
+
+    async open(sealed: string) {
+        return decoder.decode(await this.openBytes(fromBase64Url(sealed)));
+    }
+
+    // segment by segment and deterministic, so folders stay folders and a path always maps to the same name
+    async sealPath(path: string) {
+        if (!this.encryptPaths) {
+            return path;
+        }
+        let segments = [];
+        for (let segment of path.split("/")) {
+            segments.push(toBase64Url(await this.sealBytesDeterministic(encoder.encode(segment).buffer)));
+        }
+        return segments.join("/");
+    }
+
+    async openPath(path: string) {
+        if (!this.encryptPaths) {
+            return path;
+        }
+        let segments = [];
+        for (let segment of path.split("/")) {
+            segments.push(decoder.decode(await this.openBytes(fromBase64Url(segment))));
+        }
+        return segments.join("/");
+    }
+}
+
+// Asks for the passphrase of an encrypted root we joined without a key
+export class PassphraseModal extends Modal {
+    onSubmit: (passphrase: string) => Promise<void>;
+    passphrase = "";
+
+    constructor(app: App, onSubmit: (passphrase: string) => Promise<void>) {
+        super(app);
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        let { contentEl, titleEl } = this;
+        titleEl.setText("This folder is encrypted");
+        new Setting(contentEl)
+            .setName("Passphrase")
+            .addText(text => {
+                text.inputEl.type = "password";
+                text.onChange((value) => this.passphrase = value);
+            });
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Join")
+                .setCta()
+                .onClick(async () => {
+                    this.close();
+                    await this.onSubmit(this.passphrase);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
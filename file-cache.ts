@@ -1,33 +1,106 @@
 import { DiffMatchPatch } from "diff-match-patch-typescript";
-import * as crypto from 'crypto';
+import { md5 } from "checksum"
 
 export interface FileShadow {
-	content: string
+	content: string,
+	checksum: string,
+	// epoch of the last successful exchange with the broker, null if never synced
+	lastSynced: number | null
 }
 export interface UpdateItem {
     // file path to update
     path: string,
     // epoch after which we can consume this update
-    visibility: number
+    visibility: number,
+    // lower goes first, one of the PRIORITY_ constants
+    priority: number
+}
+// the note being edited, then notes open in other panes, then everything else
+export const PRIORITY_ACTIVE = 0;
+export const PRIORITY_OPEN = 1;
+export const PRIORITY_BACKGROUND = 2;
+export interface ConflictRecord {
+    // vault path of the note that lost its local version
+    path: string,
+    // where the losing local version was saved
+    copyPath: string,
+    // the losing local version
+    mine: string,
+    // epoch the conflict was detected
+    detected: number
+}
+export interface PendingMove {
+    // shared root id
+    root: string,
+    // localized paths
+    from: string,
+    to: string,
+    fileId: string | null
+}
+export interface PendingDelete {
+    // shared root id
+    root: string,
+    // localized path, a folder's deletes everything under it
+    path: string
+}
+// Bump when the shape of CacheState changes, and add a migration in sync-state.ts
+export const CACHE_STATE_VERSION = 7;
+export interface CacheState {
+    version: number,
+    fileCache: {[path: string]: FileShadow},
+    updateQueue: UpdateItem[],
+    // files edited while the broker was unreachable, pushed once we're back online
+    offlineEdits: string[],
+    // unresolved conflicts, keyed by note path
+    conflicts: {[path: string]: ConflictRecord},
+    // blob hash each attachment had when we last synced it
+    attachments: {[path: string]: string},
+    // broker-assigned ids, which stay the same when a file is moved
+    fileIds: {[path: string]: string},
+    // moves made while the broker was unreachable, replayed in order on reconnect
+    pendingMoves: PendingMove[],
+    // deletes made while the broker was unreachable, replayed after the moves
+    pendingDeletes: PendingDelete[]
 }
-const md5 = (contents: string) => crypto.createHash('md5').update(contents).digest("hex");
 
-let LOCK_TIMEOUT = 5000;
 
+// Some hunks of an incoming patch didn't apply, to the shadow or to the file. The shadow is left as it was.
+export class PatchFailedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PatchFailedError";
+    }
+}
 
 export class CollabFileCache {
     fileCache: {[path: string]: FileShadow} = {};
-    updateLock: {[path: string]: number} = {};
     updateQueue: UpdateItem[] = [];
+    offlineEdits: string[] = [];
+    conflicts: {[path: string]: ConflictRecord} = {};
+    attachments: {[path: string]: string} = {};
+    fileIds: {[path: string]: string} = {};
+    pendingMoves: PendingMove[] = [];
+    pendingDeletes: PendingDelete[] = [];
     diffy = new DiffMatchPatch();
+    // set whenever persisted state changes, cleared by the owner once it's saved
+    dirty = false;
 
     constructor() {
     }
 
-    createCachedFile(path: string, content: string) {
+    private setShadow(path: string, content: string) {
+        let lastSynced = this.fileCache[path]?.lastSynced ?? null;
         this.fileCache[path] = {
-            content: content
+            content: content,
+            checksum: md5(content),
+            lastSynced: lastSynced
         };
+        this.dirty = true;
+    }
+
+    createCachedFile(path: string, content: string) {
+        this.setShadow(path, content);
+        this.markSynced(path);
     }
 
     getCachedFile(path: string) {
@@ -35,59 +108,223 @@ export class CollabFileCache {
     }
 
     updateCachedFile(path: string, content: string) {
-        this.fileCache[path] = {
-            content: content
+        this.setShadow(path, content);
+    }
+
+    removeCachedFile(path: string) {
+        if (path in this.fileCache) {
+            delete this.fileCache[path];
+            this.dirty = true;
+        }
+        if (path in this.attachments) {
+            delete this.attachments[path];
+            this.dirty = true;
+        }
+        if (path in this.fileIds) {
+            delete this.fileIds[path];
+            this.dirty = true;
+        }
+    }
+
+    getFileId(path: string): string | null {
+        return this.fileIds[path] || null;
+    }
+
+    setFileId(path: string, fileId: string | null) {
+        if (fileId && this.fileIds[path] !== fileId) {
+            this.fileIds[path] = fileId;
+            this.dirty = true;
+        }
+    }
+
+    findPathByFileId(fileId: string): string | null {
+        return Object.keys(this.fileIds).find((path) => this.fileIds[path] === fileId) || null;
+    }
+
+    // Move everything we know about a file to its new path, including pending updates,
+    // so a patch queued before the rename goes out under the new name
+    renamePath(oldPath: string, newPath: string) {
+        let move = <T>(map: {[path: string]: T}) => {
+            if (oldPath in map) {
+                map[newPath] = map[oldPath];
+                delete map[oldPath];
+            }
+        };
+        move(this.fileCache);
+        move(this.attachments);
+        move(this.fileIds);
+        if (oldPath in this.conflicts) {
+            this.conflicts[newPath] = { ...this.conflicts[oldPath], path: newPath };
+            delete this.conflicts[oldPath];
+        }
+        for (let item of this.updateQueue) {
+            if (item.path === oldPath) {
+                item.path = newPath;
+            }
+        }
+        this.offlineEdits = this.offlineEdits.map((path) => path === oldPath ? newPath : path);
+        this.dirty = true;
+    }
+
+    addPendingMove(move: PendingMove) {
+        this.pendingMoves.push(move);
+        this.dirty = true;
+    }
+
+    // returns and clears the moves made while offline
+    takePendingMoves(matches: (move: PendingMove) => boolean = () => true) {
+        let moves = this.pendingMoves.filter(matches);
+        this.pendingMoves = this.pendingMoves.filter((move) => !matches(move));
+        this.dirty = true;
+        return moves;
+    }
+
+    addPendingDelete(pending: PendingDelete) {
+        this.pendingDeletes.push(pending);
+        this.dirty = true;
+    }
+
+    // returns and clears the deletes made while offline
+    takePendingDeletes(matches: (pending: PendingDelete) => boolean = () => true) {
+        let deletes = this.pendingDeletes.filter(matches);
+        this.pendingDeletes = this.pendingDeletes.filter((pending) => !matches(pending));
+        this.dirty = true;
+        return deletes;
+    }
+
+    // whether path, or a folder around it, is waiting to be deleted on the broker
+    isPendingDelete(root: string, path: string) {
+        return this.pendingDeletes.some((pending) => pending.root == root && (path == pending.path || path.startsWith(pending.path + "/")));
+    }
+
+    // Drops everything we know about the paths matches picks, and what is pending for root. For folders we stop syncing.
+    forget(root: string, matches: (path: string) => boolean) {
+        let drop = <T>(map: {[path: string]: T}) => {
+            for (let path of Object.keys(map).filter(matches)) {
+                delete map[path];
+            }
         };
+        drop(this.fileCache);
+        drop(this.attachments);
+        drop(this.fileIds);
+        drop(this.conflicts);
+        this.updateQueue = this.updateQueue.filter((item) => !matches(item.path));
+        this.offlineEdits = this.offlineEdits.filter((path) => !matches(path));
+        this.pendingMoves = this.pendingMoves.filter((move) => move.root != root);
+        this.pendingDeletes = this.pendingDeletes.filter((pending) => pending.root != root);
+        this.dirty = true;
+    }
+
+    // tracked paths at or under a folder
+    listTrackedUnder(folder: string) {
+        let paths = [...Object.keys(this.fileCache), ...Object.keys(this.attachments)];
+        return paths.filter((path) => path.startsWith(folder + "/"));
     }
 
     isTracked(path: string) {
-        return path in this.fileCache;
+        return path in this.fileCache || path in this.attachments;
+    }
+
+    getAttachmentHash(path: string): string | null {
+        return this.attachments[path] || null;
+    }
+
+    setAttachmentHash(path: string, hash: string) {
+        this.attachments[path] = hash;
+        this.dirty = true;
     }
 
-    // delay in ms
-    pushUpdate(path: string, delay: number) {
-        if (this.updateQueue.find((item) => item.path === path)) {
+    markSynced(path: string) {
+        if (this.fileCache[path]) {
+            this.fileCache[path].lastSynced = Date.now();
+            this.dirty = true;
+        }
+    }
+
+    // delay in ms. A file already queued only moves up, when asked for with a more urgent priority.
+    pushUpdate(path: string, delay: number, priority = PRIORITY_BACKGROUND) {
+        let queued = this.updateQueue.find((item) => item.path === path);
+        if (queued) {
+            if (priority < queued.priority) {
+                queued.priority = priority;
+                queued.visibility = Math.min(queued.visibility, Date.now() + delay);
+                this.dirty = true;
+            }
             return false;
-        } else {
-            this.updateQueue.push({
-                path: path,
-                visibility: Date.now() + delay
-            });
-            return true;
         }
+        this.updateQueue.push({
+            path: path,
+            visibility: Date.now() + delay,
+            priority: priority
+        });
+        this.dirty = true;
+        return true;
+    }
+
+    dropUpdate(path: string) {
+        let length = this.updateQueue.length;
+        this.updateQueue = this.updateQueue.filter((item) => item.path !== path);
+        this.dirty = this.dirty || this.updateQueue.length != length;
     }
 
-    getNextUpdate(depth: number = 0): string | null {
+    // takes the most urgent update that is due, skipping paths isBusy says are taken
+    getNextUpdate(isBusy: (path: string) => boolean = () => false): UpdateItem | null {
         let now = Date.now();
-        let nextUpdate = this.updateQueue[0];
-        if (depth >= this.updateQueue.length) {
-            return null;
-        } else if (nextUpdate && nextUpdate.visibility < now) {
-            return this.updateQueue.splice(depth, 1).shift()!.path;
-        } else {
-            return this.getNextUpdate(depth + 1);
+        let next: UpdateItem | null = null;
+        for (let item of this.updateQueue) {
+            if (item.visibility > now || isBusy(item.path)) {
+                continue;
+            }
+            if (!next || item.priority < next.priority || (item.priority == next.priority && item.visibility < next.visibility)) {
+                next = item;
+            }
         }
+        if (next) {
+            this.updateQueue.splice(this.updateQueue.indexOf(next), 1);
+            this.dirty = true;
+        }
+        return next;
     }
 
-    acquireLock(path: string) {
-        if (path in this.updateLock && Date.now() - this.updateLock[path] < LOCK_TIMEOUT) {
-            return false;
-        } else if (path in this.updateLock) {
-            console.log("Overriding expired lock for " + path);
-            delete this.updateLock[path];
+    markOfflineEdit(path: string) {
+        if (!this.offlineEdits.includes(path)) {
+            this.offlineEdits.push(path);
+            this.dirty = true;
         }
-        this.updateLock[path] = Date.now();
-        return true;
     }
 
-    releaseLock(path: string) {
-        delete this.updateLock[path];
+    // returns and clears the files edited while offline, all of them or the ones matching
+    takeOfflineEdits(matches: (path: string) => boolean = () => true) {
+        let paths = this.offlineEdits.filter(matches);
+        this.offlineEdits = this.offlineEdits.filter((path) => !matches(path));
+        this.dirty = true;
+        return paths;
+    }
+
+    addConflict(conflict: ConflictRecord) {
+        this.conflicts[conflict.path] = conflict;
+        this.dirty = true;
+    }
+
+    getConflict(path: string): ConflictRecord | null {
+        return this.conflicts[path] || null;
+    }
+
+    listConflicts() {
+        return Object.values(this.conflicts).sort((a, b) => b.detected - a.detected);
+    }
+
+    removeConflict(path: string) {
+        if (path in this.conflicts) {
+            delete this.conflicts[path];
+            this.dirty = true;
+        }
     }
 
     revert(path: string, content: string) {
         if (this.fileCache[path]) {
             console.log("Reverting file to: " + content)
-            this.fileCache[path].content = content;
+            this.setShadow(path, content);
         } else {
             console.warn("Can't revert a file that is not cached: " + path);
         }
@@ -96,21 +333,52 @@ export class CollabFileCache {
     // 1/2: Get the patches to 'shadow' for sending to remote
     getPatchBlock(path: string, content: string) {
         let patches = this.diffy.patch_make(this.fileCache[path].content, content, undefined);
-        this.fileCache[path].content = content;
+        this.setShadow(path, content);
         return this.diffy.patch_toText(patches);
     }
 
-    // 4/5: Perform patching on passed 'client' text and cached 'shadow' text. Returns patched 'client' text
+    // 4/5: Perform patching on passed 'client' text and cached 'shadow' text. Returns patched 'client' text,
+    // or throws PatchFailedError rather than hand back a half patched one
     applyPatch(path: string, content: string, patch_block: string) {
         let patches = this.diffy.patch_fromText(patch_block);
-        let content_p = this.diffy.patch_apply(patches, content)[0];
-        let shadow_p = this.diffy.patch_apply(patches, this.fileCache[path].content)[0];
-        this.fileCache[path].content = shadow_p;
+        let [content_p, contentApplied] = this.diffy.patch_apply(patches, content);
+        let [shadow_p, shadowApplied] = this.diffy.patch_apply(patches, this.fileCache[path].content);
+        let failed = (applied: boolean[]) => applied.filter((ok) => !ok).length;
+        if (failed(shadowApplied) > 0 || failed(contentApplied) > 0) {
+            throw new PatchFailedError(failed(shadowApplied) + " hunks failed on the shadow, " + failed(contentApplied) + " on the file, of " + patches.length);
+        }
+        this.setShadow(path, shadow_p);
         return content_p;
     }
 
     getChecksum(path: string) {
-        let content = this.getCachedFile(path)?.content || "";
-        return md5(content);
+        return this.getCachedFile(path)?.checksum || md5("");
+    }
+
+    // Snapshot of everything needed to resume differential sync after a reload
+    toState(): CacheState {
+        return {
+            version: CACHE_STATE_VERSION,
+            fileCache: this.fileCache,
+            updateQueue: this.updateQueue,
+            offlineEdits: this.offlineEdits,
+            conflicts: this.conflicts,
+            attachments: this.attachments,
+            fileIds: this.fileIds,
+            pendingMoves: this.pendingMoves,
+            pendingDeletes: this.pendingDeletes
+        };
+    }
+
+    loadState(state: CacheState) {
+        this.fileCache = state.fileCache;
+        this.updateQueue = state.updateQueue;
+        this.offlineEdits = state.offlineEdits;
+        this.conflicts = state.conflicts;
+        this.attachments = state.attachments;
+        this.fileIds = state.fileIds;
+        this.pendingMoves = state.pendingMoves;
+        this.pendingDeletes = state.pendingDeletes;
+        this.dirty = false;
     }
 }
@@ -0,0 +1,47 @@
+import { hasPropertyEdits, isMarkdown, mergeMarkdown } from "frontmatter"
+
+describe("frontmatter", () => {
+    test("recognizes notes by extension", () => {
+        expect(isMarkdown("note.md")).toBe(true);
+        expect(isMarkdown("Note.MD")).toBe(true);
+        expect(isMarkdown("board.canvas")).toBe(false);
+    });
+
+    test("different properties changed on each side are both kept", () => {
+        let base = "---\ntitle: Plan\nstatus: draft\n---\nbody\n";
+        let local = "---\ntitle: Plan B\nstatus: draft\n---\nbody\n";
+        let remote = "---\ntitle: Plan\nstatus: done\n---\nbody\n";
+        expect(mergeMarkdown(base, local, remote)).toEqual({ clean: true, content: "---\ntitle: Plan B\nstatus: done\n---\nbody\n" });
+    });
+
+    test("tags added on both sides are all kept, removals stick", () => {
+        let base = "---\ntags:\n  - a\n  - b\n---\n";
+        let local = "---\ntags:\n  - a\n  - b\n  - local\n---\n";
+        let remote = "---\ntags:\n  - b\n  - remote\n---\n";
+        expect(mergeMarkdown(base, local, remote)).toEqual({ clean: true, content: "---\ntags:\n  - b\n  - remote\n  - local\n---\n" });
+    });
+
+    test("an untouched side keeps its own formatting", () => {
+        let base = "---\ntitle: Plan  # the name\n---\nbody\n";
+        let local = "---\ntitle: Plan  # the name\n---\nbody, edited\n";
+        let remote = "---\ntitle: Plan  # the name\n---\nbody\n";
+        expect(mergeMarkdown(base, local, remote).content).toBe(local);
+    });
+
+    test("the body merges as text, conflicts and all", () => {
+        let base = "---\ntitle: Plan\n---\nthe cat\n";
+        let local = "---\ntitle: Plan\n---\nthe dog\n";
+        let remote = "---\ntitle: Plan!\n---\nthe bird\n";
+        expect(mergeMarkdown(base, local, remote)).toEqual({ clean: false, content: null });
+    });
+
+    test("notes without frontmatter are plain text merges", () => {
+        expect(mergeMarkdown("a\nb\n", "a!\nb\n", "a\nb!\n")).toEqual({ clean: true, content: "a!\nb!\n" });
+    });
+
+    test("only changes between the --- lines count as property edits", () => {
+        let sent = "---\ntitle: Plan\n---\nbody\n";
+        expect(hasPropertyEdits(sent, "---\ntitle: Plan\n---\nbody, edited\n")).toBe(false);
+        expect(hasPropertyEdits(sent, "---\ntitle: Plan B\n---\nbody\n")).toBe(true);
+    });
+});
@@ -0,0 +1,118 @@
+import { parseYaml, stringifyYaml } from "obsidian";
+import { MergeResult, threeWayMerge } from "merge"
+
+// Frontmatter is YAML, two people changing different properties at once turns into overlapping character edits
+// that garble it. Notes get their properties merged by key instead, the body stays a text merge.
+
+type Properties = {[key: string]: unknown};
+interface Note {
+    // raw YAML between the --- lines, null when the note has no frontmatter
+    yaml: string | null,
+    properties: Properties,
+    body: string
+}
+
+// properties holding a set of values, both sides' additions are kept
+const LIST_PROPERTIES = ["tags", "aliases"];
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+export function isMarkdown(path: string) {
+    return path.toLowerCase().endsWith(".md");
+}
+
+// null when the frontmatter isn't YAML we can read
+function parseNote(text: string): Note | null {
+    let match = text.match(FRONTMATTER);
+    if (!match) {
+        return { yaml: null, properties: {}, body: text };
+    }
+    let yaml = match[1] || "";
+    let properties: unknown;
+    try {
+        properties = yaml.trim() == "" ? {} : parseYaml(yaml);
+    } catch (e) {
+        return null;
+    }
+    if (typeof properties != "object" || properties == null || Array.isArray(properties)) {
+        return null;
+    }
+    return { yaml: yaml, properties: properties as Properties, body: text.slice(match[0].length) };
+}
+
+function same(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// obsidian takes both `tags: a, b` and a YAML list
+function toList(value: unknown): unknown[] {
+    if (value == null) {
+        return [];
+    }
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (typeof value == "string") {
+        return value.split(",").map((item) => item.trim()).filter((item) => item != "");
+    }
+    return [value];
+}
+
+// remote's values, plus what local added, minus what either side removed
+function mergeList(base: unknown, local: unknown, remote: unknown) {
+    let [b, l, r] = [toList(base), toList(local), toList(remote)];
+    let has = (list: unknown[], value: unknown) => list.some((item) => same(item, value));
+    let merged = [...r, ...l.filter((value) => !has(r, value) && !has(b, value))];
+    return merged.filter((value) => !has(b, value) || (has(l, value) && has(r, value)));
+}
+
+// Key by key: a side that left a property alone takes the other side's change. When both changed it
+// differently local wins, like with canvas fields.
+function mergeProperties(base: Properties, local: Properties, remote: Properties) {
+    let merged: Properties = {};
+    for (let key of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+        let [b, l, r] = [base[key], local[key], remote[key]];
+        let value: unknown;
+        if (same(l, r) || same(l, b)) {
+            value = r;
+        } else if (same(r, b)) {
+            value = l;
+        } else if (LIST_PROPERTIES.includes(key) && l !== undefined && r !== undefined) {
+            value = mergeList(b, l, r);
+        } else {
+            value = l;
+        }
+        if (value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+export function mergeMarkdown(base: string, local: string, remote: string): MergeResult {
+    let [baseNote, localNote, remoteNote] = [parseNote(base), parseNote(local), parseNote(remote)];
+    if (!baseNote || !localNote || !remoteNote || (localNote.yaml == null && remoteNote.yaml == null)) {
+        return threeWayMerge(base, local, remote);
+    }
+    let body = threeWayMerge(baseNote.body, localNote.body, remoteNote.body);
+    if (!body.clean) {
+        return body;
+    }
+    let properties = mergeProperties(baseNote.properties, localNote.properties, remoteNote.properties);
+    // keep a side's own YAML when nothing changed in it, re-serializing would lose its formatting and comments
+    let yaml: string | null;
+    if (same(properties, remoteNote.properties) && remoteNote.yaml != null) {
+        yaml = remoteNote.yaml;
+    } else if (same(properties, localNote.properties) && localNote.yaml != null) {
+        yaml = localNote.yaml;
+    } else {
+        yaml = Object.keys(properties).length == 0 ? null : stringifyYaml(properties);
+    }
+    return { clean: true, content: (yaml == null ? "" : "---\n" + yaml + "---\n") + body.content };
+}
+
+// true when local has property edits the broker hasn't seen, a text patch onto those is what garbles them
+export function hasPropertyEdits(sent: string, local: string) {
+    let match = (text: string) => text.match(FRONTMATTER)?.[0] ?? null;
+    return match(sent) != match(local);
+}
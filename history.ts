@@ -0,0 +1,150 @@
+import { App, Modal, Setting } from "obsidian"
+import { DiffMatchPatch } from "diff-match-patch-typescript";
+import { getDiffSegments } from "conflicts"
+import { JsonFileStore } from "json-store"
+
+// versions kept per file, the oldest go first
+const MAX_VERSIONS_PER_FILE = 50;
+const HISTORY_STATE_VERSION = 1;
+
+export interface Version {
+    content: string,
+    // ms since epoch
+    timestamp: number,
+    // userId of whoever made the change, null when it came in from the broker without one
+    author: string | null,
+    // captured here at a sync checkpoint, or fetched from the broker
+    source: "local" | "broker"
+}
+
+export interface HistoryState {
+    version: number,
+    versions: {[path: string]: Version[]}
+}
+
+// Snapshots of each shared file, taken whenever a sync moves its shadow
+export class VersionHistory {
+    versions: {[path: string]: Version[]} = {};
+    // set on every change, cleared by whoever persists us
+    dirty = false;
+
+    record(path: string, content: string, author: string | null) {
+        let versions = this.versions[path] || [];
+        let latest = versions[versions.length - 1];
+        if (latest && latest.content == content) {
+            return;
+        }
+        versions.push({ content: content, timestamp: Date.now(), author: author, source: "local" });
+        this.versions[path] = versions.slice(-MAX_VERSIONS_PER_FILE);
+        this.dirty = true;
+    }
+
+    // newest first
+    list(path: string) {
+        return (this.versions[path] || []).slice().reverse();
+    }
+
+    rename(oldPath: string, newPath: string) {
+        if (!(oldPath in this.versions)) {
+            return;
+        }
+        this.versions[newPath] = this.versions[oldPath];
+        delete this.versions[oldPath];
+        this.dirty = true;
+    }
+
+    toState(): HistoryState {
+        return { version: HISTORY_STATE_VERSION, versions: this.versions };
+    }
+
+    loadState(state: HistoryState) {
+        this.versions = state.versions || {};
+        this.dirty = false;
+    }
+}
+
+// Our versions and the broker's in one newest first list, without the ones both have
+export function mergeVersions(local: Version[], remote: Version[]) {
+    let seen = new Set(local.map((version) => version.content));
+    let merged = local.concat(remote.filter((version) => !seen.has(version.content)));
+    return merged.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Reads and writes the history next to the sync state, it's kept apart because it grows much bigger
+export class HistoryStore extends JsonFileStore<HistoryState> {
+    migrate(state: HistoryState) {
+        if (state?.version !== HISTORY_STATE_VERSION) {
+            console.log("Unknown history version, starting fresh", state?.version);
+            return null;
+        }
+        return state;
+    }
+}
+
+// Lists the versions of a file. Picking one shows what restoring it would change in the current text.
+export class HistoryModal extends Modal {
+    path: string;
+    current: string;
+    versions: Version[];
+    diffy: DiffMatchPatch;
+    describeAuthor: (author: string | null) => string;
+    onRestore: (version: Version) => Promise<void>;
+
+    constructor(app: App, path: string, current: string, versions: Version[], diffy: DiffMatchPatch,
+        describeAuthor: (author: string | null) => string, onRestore: (version: Version) => Promise<void>) {
+        super(app);
+        this.path = path;
+        this.current = current;
+        this.versions = versions;
+        this.diffy = diffy;
+        this.describeAuthor = describeAuthor;
+        this.onRestore = onRestore;
+    }
+
+    onOpen() {
+        let { contentEl, titleEl } = this;
+        titleEl.setText("History of " + this.path);
+        if (this.versions.length == 0) {
+            contentEl.createEl("p", { text: "No versions yet." });
+            return;
+        }
+        let listEl = contentEl.createDiv({ cls: "collab-history-list" });
+        let diffEl = contentEl.createDiv({ cls: "collab-diff" });
+        diffEl.setText("Pick a version to compare it with the current text.");
+        for (let version of this.versions) {
+            new Setting(listEl)
+                .setName(new Date(version.timestamp).toLocaleString())
+                .setDesc(this.describeAuthor(version.author) + (version.source == "broker" ? ", from the broker" : ""))
+                .addButton(button => button
+                    .setButtonText("Compare")
+                    .onClick(() => this.renderDiff(diffEl, version)))
+                .addButton(button => button
+                    .setButtonText("Restore")
+                    .onClick(async () => {
+                        this.close();
+                        await this.onRestore(version);
+                    }));
+        }
+    }
+
+    // struck out text goes away when restoring, highlighted text comes back
+    renderDiff(diffEl: HTMLElement, version: Version) {
+        diffEl.empty();
+        for (let segment of getDiffSegments(this.diffy, this.current, version.content)) {
+            if (segment.kind == "equal") {
+                diffEl.createSpan({ text: segment.text });
+                continue;
+            }
+            if (segment.theirs) {
+                diffEl.createSpan({ cls: "collab-history-removed", text: segment.theirs });
+            }
+            if (segment.mine) {
+                diffEl.createSpan({ cls: "collab-history-added", text: segment.mine });
+            }
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
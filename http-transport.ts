@@ -0,0 +1,285 @@
+import {
+    AttachmentRequest, AttachmentResponse, HistoryRequest, HistoryResponse, CreateInviteRequest, InviteListRequest, InviteResponse, RevokeInviteRequest, BlobRequest, BlobResponse, HasBlobResponse, PutAttachmentRequest, UploadBlobRequest,
+    BrokerTransport, BrokerUnreachableError, ContentRequest, ContentResponse, DeleteFileRequest, DeleteFileResponse, GetRootRequest, GetRootResponse,
+    MoveRequest, MoveResponse, PatchBatchRequest, PatchBatchResponse, PatchRequest, PatchResponse, SealedPatchRequest, SealedPatchResponse, PresenceRequest, PresenceResponse, RegisterFileRequest, RegisterFileResponse, RegisterRootRequest, RegisterRootResponse,
+    SubscribeRequest, Subscription, SubscriptionHandlers, TreeEntry
+} from "transport"
+import { Semaphore } from "scheduler"
+
+const API_VERSION = "v1";
+// requests to the broker in flight at once, the rest wait
+const MAX_REQUESTS_IN_FLIGHT = 4;
+// older brokers send the tree as plain paths, with deleted files' names prefixed by this
+const LEGACY_DELETED_PREFIX = "DELETED_";
+
+function legacyTreeEntry(path: string): TreeEntry {
+    let slash = path.lastIndexOf("/");
+    let name = path.slice(slash + 1);
+    let deleted = name.startsWith(LEGACY_DELETED_PREFIX);
+    if (deleted) {
+        path = path.slice(0, slash + 1) + name.slice(LEGACY_DELETED_PREFIX.length);
+    }
+    return { path: path, kind: "file", fileId: null, deleted: deleted, modified: 0, author: null };
+}
+
+// Talks to the python broker over its JSON API
+export class HttpTransport implements BrokerTransport {
+    endpoint: string;
+    limiter = new Semaphore(MAX_REQUESTS_IN_FLIGHT);
+
+    constructor(endpoint: string) {
+        // remove trailing slash
+        if (endpoint.endsWith("/")) {
+            this.endpoint = endpoint.slice(0, -1);
+        } else {
+            this.endpoint = endpoint;
+        }
+    }
+
+    // POSTs body as JSON. Network failures and gateway errors surface as BrokerUnreachableError,
+    // responses without a status of their own get the HTTP one.
+    async post(operation: string, body: object) {
+        let url = [this.endpoint, API_VERSION, operation].join("/");
+        return this.limiter.run(async () => {
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json"
+                    },
+                    body: JSON.stringify(body)
+                });
+            } catch (e) {
+                throw new BrokerUnreachableError("Failed to reach broker: " + e);
+            }
+            if (response.status == 502 || response.status == 503 || response.status == 504) {
+                throw new BrokerUnreachableError("Broker unavailable: " + response.status);
+            }
+            // brokers that don't know an operation answer with an html error page
+            let responseJSON = await response.json().catch(() => ({ content: response.statusText }));
+            if (responseJSON.status == null) {
+                responseJSON.status = response.status;
+            }
+            return responseJSON;
+        });
+    }
+
+    async postPatch(request: PatchRequest): Promise<PatchResponse> {
+        let responseJSON = await this.post("patch", request);
+        return {
+            status: responseJSON.status,
+            patch: responseJSON.patch,
+            checksum: responseJSON.checksum,
+            content: responseJSON.content,
+            authors: responseJSON.authors
+        };
+    }
+
+    async postPatchBatch(request: PatchBatchRequest): Promise<PatchBatchResponse> {
+        let responseJSON = await this.post("patch/batch", request);
+        return {
+            status: responseJSON.status,
+            results: responseJSON.results || [],
+            content: responseJSON.content || ""
+        };
+    }
+
+    async getContent(request: ContentRequest): Promise<ContentResponse> {
+        let responseJSON = await this.post("content", request);
+        return {
+            status: responseJSON.status,
+            content: responseJSON.content || ""
+        };
+    }
+
+    async postSealedPatch(request: SealedPatchRequest): Promise<SealedPatchResponse> {
+        let responseJSON = await this.post("patch/sealed", request);
+        return {
+            status: responseJSON.status,
+            checksum: responseJSON.checksum || "",
+            content: responseJSON.content
+        };
+    }
+
+    async registerFile(request: RegisterFileRequest): Promise<RegisterFileResponse> {
+        let responseJSON = await this.post("register", request);
+        return {
+            status: responseJSON.status,
+            content: responseJSON.content,
+            userId: responseJSON.userId || null,
+            fileId: responseJSON.fileId || null
+        };
+    }
+
+    async deleteFile(request: DeleteFileRequest): Promise<DeleteFileResponse> {
+        let responseJSON = await this.post("delete", request);
+        return {
+            status: responseJSON.status,
+            content: responseJSON.content
+        };
+    }
+
+    async moveFile(request: MoveRequest): Promise<MoveResponse> {
+        let responseJSON = await this.post("move", request);
+        return {
+            status: responseJSON.status,
+            path: responseJSON.path || "",
+            content: responseJSON.content
+        };
+    }
+
+    async getRoot(request: GetRootRequest): Promise<GetRootResponse> {
+        let responseJSON = await this.post("root", request);
+        return {
+            status: responseJSON.status,
+            tree: (responseJSON.tree || []).map((entry: TreeEntry | string) => typeof entry === "string" ? legacyTreeEntry(entry) : entry),
+            // brokers without access control let everyone edit
+            role: responseJSON.role || "editor",
+            encryption: responseJSON.encryption || "none",
+            keySalt: responseJSON.keySalt || "",
+            keyCheck: responseJSON.keyCheck || "",
+            content: responseJSON.content
+        };
+    }
+
+    async getAttachment(request: AttachmentRequest): Promise<AttachmentResponse> {
+        let responseJSON = await this.post("attachment", request);
+        return {
+            status: responseJSON.status,
+            hash: responseJSON.hash,
+            fileId: responseJSON.fileId || null,
+            content: responseJSON.content
+        };
+    }
+
+    async putAttachment(request: PutAttachmentRequest): Promise<AttachmentResponse> {
+        let responseJSON = await this.post("attachment/put", request);
+        return {
+            status: responseJSON.status,
+            hash: responseJSON.hash,
+            fileId: responseJSON.fileId || null,
+            content: responseJSON.content
+        };
+    }
+
+    async hasBlob(request: BlobRequest): Promise<HasBlobResponse> {
+        let responseJSON = await this.post("blob/exists", request);
+        return {
+            status: responseJSON.status,
+            exists: responseJSON.exists || false,
+            content: responseJSON.content
+        };
+    }
+
+    async uploadBlob(request: UploadBlobRequest): Promise<BlobResponse> {
+        let responseJSON = await this.post("blob/upload", request);
+        return {
+            status: responseJSON.status,
+            data: "",
+            content: responseJSON.content
+        };
+    }
+
+    async downloadBlob(request: BlobRequest): Promise<BlobResponse> {
+        let responseJSON = await this.post("blob/download", request);
+        return {
+            status: responseJSON.status,
+            data: responseJSON.data || "",
+            content: responseJSON.content
+        };
+    }
+
+    async postPresence(request: PresenceRequest): Promise<PresenceResponse> {
+        let responseJSON = await this.post("presence", request);
+        return {
+            status: responseJSON.status,
+            peers: responseJSON.peers || [],
+            content: responseJSON.content
+        };
+    }
+
+    async getHistory(request: HistoryRequest): Promise<HistoryResponse> {
+        let responseJSON = await this.post("history", request);
+        return {
+            status: responseJSON.status,
+            versions: responseJSON.versions || [],
+            content: responseJSON.content
+        };
+    }
+
+    // one websocket per root, the broker sends BrokerEvents as JSON text frames
+    subscribe(request: SubscribeRequest, handlers: SubscriptionHandlers): Subscription {
+        let params = new URLSearchParams({
+            root: request.root,
+            userId: request.userId || "",
+            secretKey: request.secretKey || ""
+        });
+        let address = [this.endpoint.replace(/^http/, "ws"), API_VERSION, "subscribe"].join("/");
+        let url = address + "?" + params.toString();
+        let closed = false;
+        let close = () => {
+            if (!closed) {
+                closed = true;
+                handlers.onClose();
+            }
+        };
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(url);
+        } catch (e) {
+            // the query has the secret key in it, and the error may quote the url
+            console.log("Failed to open websocket", address, String(e).split(url).join(address));
+            window.setTimeout(close, 0);
+            return { close: close };
+        }
+        socket.onopen = () => handlers.onOpen();
+        socket.onmessage = (message) => {
+            try {
+                handlers.onEvent(JSON.parse(message.data));
+            } catch (e) {
+                console.log("Ignoring malformed broker event", message.data, e);
+            }
+        };
+        socket.onerror = () => socket.close();
+        socket.onclose = close;
+        return {
+            close: () => {
+                socket.close();
+                close();
+            }
+        };
+    }
+
+    async registerRoot(request: RegisterRootRequest): Promise<RegisterRootResponse> {
+        // same operation as getRoot, without a root
+        let responseJSON = await this.post("root", request);
+        return {
+            status: responseJSON.status,
+            root: responseJSON.root,
+            token: responseJSON.token || "",
+            content: responseJSON.content
+        };
+    }
+
+    async invite(operation: string, body: object): Promise<InviteResponse> {
+        let responseJSON = await this.post("invite/" + operation, body);
+        return {
+            status: responseJSON.status,
+            invites: responseJSON.invites || [],
+            content: responseJSON.content
+        };
+    }
+
+    async createInvite(request: CreateInviteRequest): Promise<InviteResponse> {
+        return this.invite("create", request);
+    }
+
+    async listInvites(request: InviteListRequest): Promise<InviteResponse> {
+        return this.invite("list", request);
+    }
+
+    async revokeInvite(request: RevokeInviteRequest): Promise<InviteResponse> {
+        return this.invite("revoke", request);
+    }
+}
@@ -0,0 +1,47 @@
+import { DEFAULT_IGNORE, IgnoreRules } from "ignore"
+
+describe("IgnoreRules", () => {
+    test("the defaults skip untitled notes at any depth", () => {
+        let rules = new IgnoreRules(DEFAULT_IGNORE);
+        expect(rules.isIgnored("Untitled.md")).toBe(true);
+        expect(rules.isIgnored("drafts/Untitled.canvas")).toBe(true);
+        expect(rules.isIgnored("Untitled 1.md")).toBe(false);
+    });
+
+    test("globs stay within a segment unless doubled", () => {
+        let rules = new IgnoreRules("*.tmp\nbuild/**/*.log");
+        expect(rules.isIgnored("notes/scratch.tmp")).toBe(true);
+        expect(rules.isIgnored("build/out.log")).toBe(true);
+        expect(rules.isIgnored("build/a/b/out.log")).toBe(true);
+        expect(rules.isIgnored("notes/out.log")).toBe(false);
+    });
+
+    test("a slash ties the pattern to the folder root", () => {
+        let rules = new IgnoreRules("/private.md\nnotes/secret.md");
+        expect(rules.isIgnored("private.md")).toBe(true);
+        expect(rules.isIgnored("sub/private.md")).toBe(false);
+        expect(rules.isIgnored("notes/secret.md")).toBe(true);
+        expect(rules.isIgnored("other/notes/secret.md")).toBe(false);
+    });
+
+    test("folder rules take everything in the folder along", () => {
+        let rules = new IgnoreRules("archive/");
+        expect(rules.isIgnored("archive", true)).toBe(true);
+        expect(rules.isIgnored("archive")).toBe(false);
+        expect(rules.isIgnored("archive/2020/old.md")).toBe(true);
+        expect(rules.isIgnored("notes/archive/old.md")).toBe(true);
+    });
+
+    test("later sources win, negations bring files back", () => {
+        let rules = new IgnoreRules("*.md", "!keep.md");
+        expect(rules.isIgnored("drop.md")).toBe(true);
+        expect(rules.isIgnored("keep.md")).toBe(false);
+        expect(new IgnoreRules("!keep.md", "*.md").isIgnored("keep.md")).toBe(true);
+    });
+
+    test("comments and blank lines are skipped", () => {
+        let rules = new IgnoreRules("# *.md\n\n   \n");
+        expect(rules.rules).toHaveLength(0);
+        expect(rules.isIgnored("note.md")).toBe(false);
+    });
+});
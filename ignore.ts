@@ -0,0 +1,89 @@
+// gitignore-style rules deciding which files of a shared folder stay local
+
+export const IGNORE_FILE = ".collabignore";
+// what was always skipped: the empty notes obsidian creates before they get a name
+export const DEFAULT_IGNORE = "Untitled.md\nUntitled.canvas";
+
+interface IgnoreRule {
+    regex: RegExp,
+    // "!" rules bring back what an earlier rule ignored
+    negate: boolean,
+    // rules ending in "/" only match folders
+    folderOnly: boolean
+}
+
+function globToRegex(glob: string) {
+    let regex = "";
+    for (let i = 0; i < glob.length; i++) {
+        let char = glob[i];
+        if (glob.startsWith("**/", i)) {
+            regex += "(?:.*/)?";
+            i += 2;
+        } else if (glob.startsWith("/**", i) && i + 3 == glob.length) {
+            regex += "(?:/.*)?";
+            i += 2;
+        } else if (glob.startsWith("**", i)) {
+            regex += ".*";
+            i += 1;
+        } else if (char == "*") {
+            regex += "[^/]*";
+        } else if (char == "?") {
+            regex += "[^/]";
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return regex;
+}
+
+function parseRule(line: string): IgnoreRule | null {
+    line = line.trim();
+    if (line == "" || line.startsWith("#")) {
+        return null;
+    }
+    let negate = line.startsWith("!");
+    if (negate) {
+        line = line.slice(1);
+    }
+    let folderOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    // a slash anywhere but the end ties the pattern to the folder root, otherwise it matches at any depth
+    let anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (line == "") {
+        return null;
+    }
+    let prefix = anchored ? "^" : "^(?:.*/)?";
+    return { regex: new RegExp(prefix + globToRegex(line) + "$"), negate: negate, folderOnly: folderOnly };
+}
+
+export class IgnoreRules {
+    rules: IgnoreRule[];
+
+    // later sources win over earlier ones, like later lines in one file
+    constructor(...sources: string[]) {
+        this.rules = sources.join("\n").split(/\r?\n/).map(parseRule).filter((rule): rule is IgnoreRule => rule != null);
+    }
+
+    private matches(path: string, isFolder: boolean) {
+        let ignored = false;
+        for (let rule of this.rules) {
+            if ((!rule.folderOnly || isFolder) && rule.regex.test(path)) {
+                ignored = !rule.negate;
+            }
+        }
+        return ignored;
+    }
+
+    // path is relative to the shared folder. Anything under an ignored folder is ignored too.
+    isIgnored(path: string, isFolder = false) {
+        let segments = path.split("/");
+        for (let i = 1; i <= segments.length; i++) {
+            let last = i == segments.length;
+            if (this.matches(segments.slice(0, i).join("/"), !last || isFolder)) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
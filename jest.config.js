@@ -0,0 +1,12 @@
+// Tests run against the in-memory broker and a mock of obsidian, see __mocks__.
+// Modules are imported by bare name like in the plugin, and obsidian is swapped for the mock next to it.
+module.exports = {
+	preset: "ts-jest",
+	testEnvironment: "node",
+	moduleDirectories: ["<rootDir>", "node_modules"],
+	// the sources, not the main.js a build leaves behind
+	moduleFileExtensions: ["ts", "js", "json"],
+	moduleNameMapper: {
+		"^obsidian$": "<rootDir>/__mocks__/obsidian.ts"
+	}
+};
@@ -0,0 +1,58 @@
+import { App } from "obsidian"
+import { ActivityLog, ActivityStore } from "activity"
+import { CACHE_STATE_VERSION, CollabFileCache } from "file-cache"
+import { HistoryStore } from "history"
+import { SyncStateStore } from "sync-state"
+
+describe("the json file stores", () => {
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("state comes back the way it was saved, without a temp file left over", async () => {
+        let adapter = new App().vault.adapter;
+        let store = new SyncStateStore(adapter, "plugin/sync-state.json");
+        let cache = new CollabFileCache();
+        cache.createCachedFile("note.md", "content");
+        await store.save(cache.toState());
+        await store.save(cache.toState());
+        expect(await store.load()).toEqual(cache.toState());
+        expect(await adapter.exists("plugin/sync-state.json.tmp")).toBe(false);
+    });
+
+    test("a missing or broken file starts fresh", async () => {
+        let adapter = new App().vault.adapter;
+        let store = new HistoryStore(adapter, "plugin/history.json");
+        expect(await store.load()).toBeNull();
+        await adapter.write("plugin/history.json", "{\"version\": 1, \"versions\"");
+        expect(await store.load()).toBeNull();
+        await adapter.write("plugin/history.json", "null");
+        expect(await store.load()).toBeNull();
+    });
+
+    test("older sync state is upgraded, newer is ignored", async () => {
+        let adapter = new App().vault.adapter;
+        let store = new SyncStateStore(adapter, "plugin/sync-state.json");
+        await adapter.write("plugin/sync-state.json", JSON.stringify({ version: 6, fileCache: {}, updateQueue: [] }));
+        let state = await store.load();
+        expect(state?.version).toBe(CACHE_STATE_VERSION);
+        expect(state?.pendingDeletes).toEqual([]);
+        await adapter.write("plugin/sync-state.json", JSON.stringify({ version: CACHE_STATE_VERSION + 1 }));
+        expect(await store.load()).toBeNull();
+    });
+
+    test("the activity log round trips, other versions start fresh", async () => {
+        let adapter = new App().vault.adapter;
+        let store = new ActivityStore(adapter, "plugin/activity.json");
+        let log = new ActivityLog();
+        log.record("root", "note.md", "alice", 1000);
+        await store.save(log.toState());
+        expect(await store.load()).toEqual(log.toState());
+        await adapter.write("plugin/activity.json", JSON.stringify({ version: 0, roots: {} }));
+        expect(await store.load()).toBeNull();
+    });
+});
@@ -0,0 +1,40 @@
+import { DataAdapter } from "obsidian"
+
+// State kept as a JSON file in the plugin directory. A file that can't be read is treated as missing,
+// each store decides in migrate what of an older or unknown format it can still use.
+export abstract class JsonFileStore<T> {
+    adapter: DataAdapter;
+    path: string;
+
+    constructor(adapter: DataAdapter, path: string) {
+        this.adapter = adapter;
+        this.path = path;
+    }
+
+    async load(): Promise<T | null> {
+        if (!(await this.adapter.exists(this.path))) {
+            return null;
+        }
+        let state: T;
+        try {
+            state = JSON.parse(await this.adapter.read(this.path));
+        } catch (e) {
+            console.log("Failed to read", this.path, "starting fresh", e);
+            return null;
+        }
+        return this.migrate(state);
+    }
+
+    async save(state: T) {
+        // write to a temp file first so a suspend mid-write can't leave us with half a state file
+        let tmp = this.path + ".tmp";
+        await this.adapter.write(tmp, JSON.stringify(state));
+        if (await this.adapter.exists(this.path)) {
+            await this.adapter.remove(this.path);
+        }
+        await this.adapter.rename(tmp, this.path);
+    }
+
+    // the state as this version of the plugin uses it, null to start fresh
+    abstract migrate(state: T): T | null;
+}
@@ -0,0 +1,194 @@
+import { App, PluginManifest, TFile } from "obsidian"
+import MyPlugin from "main"
+import { BrokerPool } from "brokers"
+import { formatShareCode } from "access"
+import { InMemoryBroker } from "memory-broker"
+
+// every test gets a broker of its own
+let brokerCount = 0;
+
+// The plugin as onload sets it up for syncing, without the views, commands and timers. Push channels stay
+// closed, so nothing happens unless the test asks for it.
+async function createPlugin(endpoint: string) {
+    let app = new App();
+    let plugin = new MyPlugin(app, { id: "soups-obsi-collab", dir: ".obsidian/plugins/soups-obsi-collab" } as PluginManifest);
+    plugin.brokers = new BrokerPool(app, (event) => plugin.onBrokerEvent(event), (root) => plugin.onPushLive(root));
+    plugin.settingTab = { display: () => undefined } as unknown as MyPlugin["settingTab"];
+    await plugin.loadSettings();
+    plugin.settings.brokerEndpoint = endpoint;
+    plugin.settings.realtimeUpdates = false;
+    return plugin;
+}
+
+// alice shares Notes with the files given, bob joins it at the same path
+async function setUp(files: {[path: string]: string}) {
+    let endpoint = "memory://plugin-test-" + (++brokerCount);
+    let [alice, bob] = [await createPlugin(endpoint), await createPlugin(endpoint)];
+    await alice.app.vault.createFolder("Notes");
+    for (let path of Object.keys(files)) {
+        await alice.app.vault.create(path, files[path]);
+    }
+    let root = (await alice.shareFolder("Notes", "none", ""))!;
+    let invite = await alice.getBroker(root).syncUtil.createInvite(root, "editor");
+    await bob.joinShare(formatShareCode(root, invite.token), "Notes");
+    return { alice: alice, bob: bob, root: root };
+}
+
+function getFile(plugin: MyPlugin, path: string) {
+    let file = plugin.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+}
+
+async function read(plugin: MyPlugin, path: string) {
+    let file = getFile(plugin, path);
+    return file ? await plugin.app.vault.read(file) : null;
+}
+
+async function edit(plugin: MyPlugin, path: string, content: string) {
+    let file = getFile(plugin, path)!;
+    await plugin.app.vault.modify(file, content);
+    await plugin.trySync(file);
+}
+
+describe("the plugin syncing two vaults", () => {
+    beforeEach(() => {
+        // the plugin logs every step
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("sharing a folder in place uploads what's in it", async () => {
+        let { alice, root } = await setUp({ "Notes/plan.md": "the plan" });
+        expect(alice.settings.sharedFolders[root].path).toBe("Notes");
+        expect(alice.fileCache.isTracked("Notes/plan.md")).toBe(true);
+        expect(await alice.getBroker(root).syncUtil.fetchContent("plan.md", root)).toBe("the plan");
+    });
+
+    test("joining mounts the folder, the notes come with the next root sync", async () => {
+        let { bob, root } = await setUp({ "Notes/plan.md": "the plan" });
+        expect(bob.settings.sharedFolders[root].role).toBe("editor");
+        expect(bob.app.vault.getFolderByPath("Notes")).not.toBeNull();
+        await bob.syncRoot(root);
+        await bob.registerUntrackedFiles();
+        expect(await read(bob, "Notes/plan.md")).toBe("the plan");
+    });
+
+    test("a note added on the other side arrives with its content on the tree event", async () => {
+        let { alice, bob, root } = await setUp({});
+        await alice.app.vault.create("Notes/new.md", "just added");
+        await alice.registerUntrackedFiles();
+        // what a live push channel does, no refresh or untracked file check comes after it
+        await bob.onBrokerEvent({ type: "tree-changed", root: root });
+        expect(await read(bob, "Notes/new.md")).toBe("just added");
+        expect(bob.fileCache.isTracked("Notes/new.md")).toBe(true);
+    });
+
+    test("edits go both ways", async () => {
+        let { alice, bob, root } = await setUp({ "Notes/plan.md": "first line\nsecond line\n" });
+        await bob.syncRoot(root);
+        await bob.registerUntrackedFiles();
+        await edit(alice, "Notes/plan.md", "first line, by alice\nsecond line\n");
+        await edit(bob, "Notes/plan.md", "first line\nsecond line, by bob\n");
+        await alice.trySync(getFile(alice, "Notes/plan.md")!);
+        let expected = "first line, by alice\nsecond line, by bob\n";
+        expect(await read(alice, "Notes/plan.md")).toBe(expected);
+        expect(await read(bob, "Notes/plan.md")).toBe(expected);
+    });
+
+    test("a delete reaches the other vault with the next root sync", async () => {
+        let { alice, bob, root } = await setUp({ "Notes/plan.md": "the plan" });
+        await bob.syncRoot(root);
+        await bob.registerUntrackedFiles();
+        await alice.deleteFile(getFile(alice, "Notes/plan.md")!);
+        await bob.syncRoot(root);
+        expect(getFile(bob, "Notes/plan.md")).toBeNull();
+        expect(bob.fileCache.isTracked("Notes/plan.md")).toBe(false);
+    });
+
+    test("a delete doesn't take edits the broker hasn't seen along", async () => {
+        let { alice, bob, root } = await setUp({ "Notes/plan.md": "the plan" });
+        await bob.syncRoot(root);
+        await bob.app.vault.modify(getFile(bob, "Notes/plan.md")!, "the plan, with bob's edits");
+        await alice.deleteFile(getFile(alice, "Notes/plan.md")!);
+        await bob.syncRoot(root);
+        expect(getFile(bob, "Notes/plan.md")).toBeNull();
+        let copy = bob.app.vault.getFiles().find((file) => file.path.startsWith("Notes/plan (conflict "))!;
+        expect(await read(bob, copy.path)).toBe("the plan, with bob's edits");
+        // shared again as a new file
+        expect(bob.fileCache.isTracked(copy.path)).toBe(true);
+        expect(await alice.getBroker(root).syncUtil.fetchContent(copy.path.slice("Notes/".length), root)).toBe("the plan, with bob's edits");
+    });
+
+    test("leaving a folder forgets everything about its files", async () => {
+        let { bob, root } = await setUp({ "Notes/plan.md": "the plan", "Notes/todo.md": "todo" });
+        await bob.syncRoot(root);
+        bob.fileCache.markOfflineEdit("Notes/plan.md");
+        bob.fileCache.addPendingDelete({ root: root, path: "old.md" });
+        bob.scheduler.schedule("Notes/todo.md", undefined, 60000);
+        await bob.leaveFolder(root);
+        expect(bob.settings.sharedFolders[root]).toBeUndefined();
+        expect(bob.fileCache.listTrackedUnder("Notes")).toEqual([]);
+        expect(bob.fileCache.fileIds).toEqual({});
+        expect(bob.fileCache.offlineEdits).toEqual([]);
+        expect(bob.fileCache.pendingDeletes).toEqual([]);
+        expect(bob.fileCache.updateQueue).toEqual([]);
+        // the files themselves stay
+        expect(await read(bob, "Notes/plan.md")).toBe("the plan");
+    });
+
+    test("owners hand out the same invite until it's revoked", async () => {
+        let { alice, root } = await setUp({});
+        let syncUtil = alice.getBroker(root).syncUtil;
+        let existing = (await syncUtil.listInvites(root)).map((invite) => invite.token);
+        let invite = await alice.getEditorInvite(root);
+        expect(existing).toContain(invite.token);
+        expect((await alice.getEditorInvite(root)).token).toBe(invite.token);
+        await syncUtil.revokeInvite(root, invite.token);
+        let next = await alice.getEditorInvite(root);
+        expect(next.token).not.toBe(invite.token);
+        expect((await syncUtil.listInvites(root)).map((invite) => invite.token)).toEqual([next.token]);
+    });
+
+    test("attachments over the limit are reported instead of skipped quietly", async () => {
+        let { alice } = await setUp({});
+        let file = await alice.app.vault.createBinary("Notes/video.mp4", new ArrayBuffer(16));
+        file.stat.size = 60 * 1024 * 1024;
+        await alice.trySync(file);
+        expect(alice.fileCache.isTracked("Notes/video.mp4")).toBe(false);
+        expect(alice.statusTracker.errors["Notes/video.mp4"].message).toContain("50 MB limit");
+    });
+
+    test("a folder whose root is gone from the broker is dropped from the saved settings", async () => {
+        let { alice, root } = await setUp({ "Notes/plan.md": "the plan" });
+        let broker = alice.getBroker(root).syncUtil.transport as InMemoryBroker;
+        delete broker.roots[root];
+        await edit(alice, "Notes/plan.md", "the plan, edited");
+        expect(alice.settings.sharedFolders[root]).toBeUndefined();
+        expect((await alice.loadData()).sharedFolders[root]).toBeUndefined();
+        expect(alice.fileCache.isTracked("Notes/plan.md")).toBe(false);
+    });
+
+    test("a failed join leaves no token behind", async () => {
+        let { alice, bob, root } = await setUp({});
+        await alice.app.vault.createFolder("Other");
+        let other = (await alice.shareFolder("Other", "none", ""))!;
+        let syncUtil = alice.getBroker(other).syncUtil;
+        let invite = await syncUtil.createInvite(other, "editor");
+        await syncUtil.revokeInvite(other, invite.token);
+        await bob.joinShare(formatShareCode(other, invite.token), "Other");
+        expect(bob.settings.sharedFolders[other]).toBeUndefined();
+        expect(bob.getBroker(root).syncUtil.tokens[other]).toBeUndefined();
+    });
+
+    test("joining a folder twice keeps the invite it was joined with", async () => {
+        let { alice, bob, root } = await setUp({});
+        let token = bob.settings.sharedFolders[root].token;
+        let viewer = await alice.getBroker(root).syncUtil.createInvite(root, "viewer");
+        await bob.joinShare(formatShareCode(root, viewer.token), "Elsewhere");
+        expect(bob.settings.sharedFolders[root].token).toBe(token);
+        expect(bob.getBroker(root).syncUtil.tokens[root]).toBe(token);
+    });
+});
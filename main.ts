@@ -1,262 +1,1566 @@
-import { App, DataWriteOptions, Editor, FileView, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TextComponent, WorkspaceLeaf } from 'obsidian';
-import { CollabFileCache, FileShadow } from 'file-cache';
-import { FileDeletedError, ServerRequest, ServerResponse, SyncUtil } from 'sync-util';
-import { get } from 'http';
+import { App, DataWriteOptions, Editor, FileView, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, TextComponent, Platform, debounce, normalizePath } from 'obsidian';
+import { CollabFileCache, ConflictRecord, FileShadow, PatchFailedError, PRIORITY_ACTIVE, PRIORITY_BACKGROUND, PRIORITY_OPEN } from 'file-cache';
+import { SyncScheduler } from 'scheduler';
+import { BrokerPool, checkConnection } from 'brokers';
+import { AccessDeniedError, BrokerEvent, BrokerUnreachableError, EncryptionMode, FileDeletedError, PatchAuthor, PatchResponse, Role } from 'transport';
+import { SyncStateStore } from 'sync-state';
+import { threeWayMerge } from 'merge';
+import { isCanvas, mergeCanvas, parseCanvas } from 'canvas';
+import { hasPropertyEdits, isMarkdown, mergeMarkdown } from 'frontmatter';
+import { ConflictListModal, ConflictModal, conflictCopyPath } from 'conflicts';
+import { PresenceTracker, remoteCursorField, renderAvatars, setRemoteCursors } from 'presence';
+import { EditorView } from '@codemirror/view';
+import { Extension } from '@codemirror/state';
+import { applyRemoteText, getOpenEditor } from 'editor-patch';
+import { MAX_ATTACHMENT_BYTES, isAttachment } from 'attachments';
+import { InviteListModal, LeaveFolderModal, SHARE_LINK_ACTION, formatShareCode, formatShareLink, parseShareCode, readOnlyExtension } from 'access';
+import { PassphraseModal, RootCipher, randomSalt } from 'encryption';
+import { HistoryModal, HistoryStore, Version, VersionHistory, mergeVersions } from 'history';
+import { DEFAULT_IGNORE, IGNORE_FILE, IgnoreRules } from 'ignore';
+import { ACTIVITY_VIEW, ActivityLog, ActivityRoot, ActivitySource, ActivityStore, ActivityView } from 'activity';
+import { ChangeAuthor, authorGutter } from 'attribution';
+import { FileSyncState, StatusRoot, SYNC_STATUS_VIEW, SyncStatusSource, SyncStatusTracker, SyncStatusView, renderStatusBar } from 'status';
 // Remember to rename these classes and interfaces!
 
+interface SharedFolder {
+	// root id on the broker
+	root: string;
+	// the invite we joined with, or the owner token for roots we shared. null for roots from before access control
+	token: string | null;
+	role: Role;
+	encryption: EncryptionMode;
+	// root key of an encrypted root, never sent to the broker
+	key: string | null;
+	// .collabignore lines that only apply on this device
+	excludes: string;
+	// endpoint of the broker the root lives on, null for the default one
+	broker: string | null;
+	// where the root is mounted in the vault. Mounts may nest, a file belongs to the deepest one.
+	path: string;
+}
+
 interface PluginSettings {
+	// the broker for folders that don't name their own
 	brokerEndpoint: string;
-	sharedFolders: {[path:string]: string};
-	userId: string | null;
+	sharedFolders: {[path:string]: SharedFolder};
+	// each broker hands out its own user id
+	userIds: {[endpoint: string]: string};
+	// subscribe to broker push events instead of polling, when the broker supports it
+	realtimeUpdates: boolean;
+	// shown to collaborators next to our cursor
+	displayName: string;
+	// color the lines others changed recently in the open note
+	authorGutter: boolean;
 }
 
 const DEFAULT_SETTINGS: PluginSettings = {
 	brokerEndpoint: 'http://localhost:5000',
 	sharedFolders: {},
-	userId: null,
+	userIds: {},
+	realtimeUpdates: true,
+	displayName: '',
+	authorGutter: false,
 }
 const SHARED_FOLDER_ROOT = "Shared"
 
-const SYNC_CALL_FREQUENCY_MS = 1000;
+// how often queued syncs are checked for being due
+const SCHEDULER_TICK_MS = 500;
+// file syncs running at once, the transport caps raw requests on top of this
+const MAX_CONCURRENT_SYNCS = 3;
+// notes per batch request in the periodic refresh
+const MAX_BATCH_FILES = 100;
 const OPEN_IDLE_SYNC_FREQUENCY_MS = 3000;
 const FILE_REFRESH_FREQUENCY_MS = 30000;
 const ROOT_REFRESH_FREQUENCY_MS = 10000;
+const PERSIST_FREQUENCY_MS = 5000;
+// roots with a live push channel still get a full tree check now and then, in case an event was lost
+const LIVE_ROOT_REFRESH_FREQUENCY_MS = 120000;
+const PRESENCE_FREQUENCY_MS = 1000;
+// presence is re-sent this often even when nothing moved, so the broker doesn't expire us
+const PRESENCE_HEARTBEAT_MS = 10000;
+// back from the background after this long, everything gets checked right away instead of on the next interval
+const RESUME_CATCH_UP_AFTER_MS = 15000;
+// the status bar also notices edits that haven't gone out yet, so it polls on top of reacting to events
+const STATUS_BAR_FREQUENCY_MS = 2000;
+// settings typed into text fields are saved once typing pauses this long
+const SETTINGS_TYPING_DELAY_MS = 1000;
 
-export default class MyPlugin extends Plugin {
+export default class MyPlugin extends Plugin implements SyncStatusSource, ActivitySource {
 	settings: PluginSettings;
-	syncUtil: SyncUtil;
+	brokers: BrokerPool;
 	fileCache: CollabFileCache = new CollabFileCache();
+	scheduler: SyncScheduler = new SyncScheduler(this.fileCache, (path) => this.syncPath(path), MAX_CONCURRENT_SYNCS);
+	syncState: SyncStateStore;
+	history: VersionHistory = new VersionHistory();
+	historyStore: HistoryStore;
+	activity: ActivityLog = new ActivityLog();
+	activityStore: ActivityStore;
+	// registered once, filled or emptied when the setting changes
+	authorGutterExtension: Extension[] = [];
+	// epoch the app went to the background, null while it's in front
+	hiddenSince: number | null = null;
+	// epoch of the last successful tree sync per root
+	lastRootSync: {[root: string]: number} = {};
+	presence: PresenceTracker = new PresenceTracker();
+	// root we last published presence to, and what we sent
+	presenceRoot: string | null = null;
+	lastPresence = "";
+	lastPresenceSent = 0;
+	// renames we make ourselves to follow remote moves, new path by old path
+	expectedRenames: {[oldPath: string]: string} = {};
+	// roots the broker turned us away from, so we only tell the user once
+	accessDenied: {[root: string]: boolean} = {};
+	statusTracker: SyncStatusTracker = new SyncStatusTracker();
+	statusBarEl: HTMLElement;
+	settingTab: SettingTab;
+	// per shared folder: the defaults, its .collabignore and our own excludes
+	ignoreRules: {[folder: string]: IgnoreRules} = {};
+	// writes settings without saveSettings' reloads and reconnects, for fields saved on every keystroke
+	saveSettingsLater = debounce(() => this.saveData(this.settings), SETTINGS_TYPING_DELAY_MS, true);
+	// same for excludes, which only need the ignore rules read again
+	loadIgnoreRulesLater = debounce(() => this.loadIgnoreRules(), SETTINGS_TYPING_DELAY_MS, true);
+	// folders being registered with a broker we have no user id for, see adoptBroker
+	adopting: {[folder: string]: Promise<void>} = {};
 
 	async onload() {
+		this.brokers = new BrokerPool(this.app, (event) => this.onBrokerEvent(event), (root) => this.onPushLive(root));
 		await this.loadSettings();
+		await this.restoreSyncState();
+		this.app.workspace.onLayoutReady(async () => {
+			await this.registerUntrackedFiles();
+			this.updatePushChannels();
+		});
 
 		// This adds a settings tab so the user can configure various aspects of the plugin
-		this.addSettingTab(new SettingTab(this.app, this));
+		this.settingTab = new SettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
+		this.registerEditorExtension(remoteCursorField);
+		this.registerEditorExtension(readOnlyExtension((path) => this.isReadOnly(path)));
+		this.registerEditorExtension(this.authorGutterExtension);
+		this.updateAuthorGutter();
+		this.registerView(SYNC_STATUS_VIEW, (leaf) => new SyncStatusView(leaf, this));
+		this.registerView(ACTIVITY_VIEW, (leaf) => new ActivityView(leaf, this));
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("mod-clickable");
+		this.statusBarEl.onClickEvent(() => this.activateStatusView());
+		this.register(this.statusTracker.onChange(() => this.updateStatusBar()));
+
+		this.addCommand({
+			id: 'show-conflicts',
+			name: 'Show unresolved conflicts',
+			callback: () => {
+				let conflicts = this.fileCache.listConflicts();
+				if (conflicts.length == 0) {
+					new Notice("No unresolved conflicts");
+					return;
+				}
+				new ConflictListModal(this.app, conflicts, (conflict) => this.openConflict(conflict)).open();
+			}
+		});
+		this.addCommand({
+			id: 'show-history',
+			name: 'Show version history of the current note',
+			checkCallback: (checking: boolean) => {
+				let file = this.app.workspace.getActiveFile();
+				if (!file || !this.getFolderForPath(file.path) || isAttachment(file.path)) {
+					return false;
+				}
+				if (!checking) {
+					this.showHistory(file);
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'show-sync-status',
+			name: 'Show shared folder sync status',
+			callback: () => this.activateStatusView()
+		});
+		this.addCommand({
+			id: 'show-activity',
+			name: 'Show shared folder activity',
+			callback: () => this.activateActivityView()
+		});
+		this.addCommand({
+			id: 'sync-current-file',
+			name: 'Sync current file now',
+			checkCallback: (checking: boolean) => {
+				let file = this.app.workspace.getActiveFile();
+				if (!file || !this.getFolderForPath(file.path)) {
+					return false;
+				}
+				if (!checking) {
+					this.retryFile(file.path);
+				}
+				return true;
+			}
+		});
+		// the rest act on the shared folder of the current file
+		let folderCommands: {id: string, name: string, run: (folder: string) => Promise<void>}[] = [
+			{ id: 'resync-folder', name: 'Force full resync of this shared folder', run: (folder) => this.resyncFolder(folder) },
+			{ id: 'copy-share-link', name: 'Copy share link for this shared folder', run: (folder) => this.copyShareLink(folder) },
+			{ id: 'leave-folder', name: 'Leave this shared folder', run: async (folder) => this.confirmLeaveFolder(folder) }
+		];
+		for (let command of folderCommands) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				checkCallback: (checking: boolean) => {
+					let file = this.app.workspace.getActiveFile();
+					let folder = file ? this.getFolderForPath(file.path) : null;
+					if (!folder) {
+						return false;
+					}
+					if (!checking) {
+						command.run(folder);
+					}
+					return true;
+				}
+			});
+		}
+		this.addCommand({
+			id: 'share-folder',
+			name: 'Share the folder of the current file',
+			checkCallback: (checking: boolean) => {
+				let parent = this.app.workspace.getActiveFile()?.parent;
+				if (!parent || parent.isRoot() || this.getFolderForMount(parent.path)) {
+					return false;
+				}
+				if (!checking) {
+					this.shareFolder(parent.path, "none", "");
+				}
+				return true;
+			}
+		});
+		this.registerEvent(this.app.workspace.on("file-menu", (menu, file) => {
+			if (!(file instanceof TFolder) || file.isRoot()) {
+				return;
+			}
+			let folder = this.getFolderForMount(file.path);
+			if (!folder) {
+				menu.addItem((item) => item
+					.setTitle("Share this folder")
+					.setIcon("share-2")
+					.onClick(() => this.shareFolder(file.path, "none", "")));
+				return;
+			}
+			menu.addItem((item) => item
+				.setTitle("Sync shared folder now")
+				.setIcon("refresh-cw")
+				.onClick(() => this.retryFolder(folder!)));
+			for (let command of folderCommands) {
+				menu.addItem((item) => item
+					.setTitle(command.name.replace("this shared folder", "shared folder"))
+					.onClick(() => command.run(folder!)));
+			}
+		}));
+		this.registerObsidianProtocolHandler(SHARE_LINK_ACTION, async (params) => {
+			if (!params.join) {
+				return;
+			}
+			await this.joinShare(params.join, null, params.broker || null);
+		});
 
 		this.registerEvent(this.app.vault.on("modify", (file: TFile) => {
 			// on file modify, sync the file
-			if (this.fileCache.acquireLock(file.path)) {
-				this.trySync(file);
-				this.fileCache.releaseLock(file.path);
-			}
+			this.scheduler.syncNow(file.path, this.getSyncPriority(file.path));
 		}));
 		this.registerEvent(this.app.workspace.on("file-open", (file: TFile) => {
-			// on file modify, sync the file
-			if (file != null && this.fileCache.acquireLock(file.path)) {
-				this.trySync(file);
-				this.fileCache.releaseLock(file.path);
+			this.updateStatusBar();
+			if (file != null) {
+				this.scheduler.syncNow(file.path, PRIORITY_ACTIVE);
 			}
 		}));
-		this.registerEvent(this.app.vault.on("delete", (file: TFile) => {
+		this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.updateStatusBar()));
+		this.registerEvent(this.app.vault.on("delete", async (file: TAbstractFile) => {
+			if (file instanceof TFolder) {
+				await this.deleteFolder(file);
+				return;
+			}
+			if (this.isReadOnly(file.path)) {
+				// viewers can't delete on the broker, the file comes back with the next root sync
+				this.fileCache.removeCachedFile(file.path);
+				return;
+			}
 			// on file delete, remove from cache
-			if (this.fileCache.isTracked(file.path)) {
-				this.deleteFile(file, this.getSharedRoot(file));
+			if (file instanceof TFile && this.fileCache.isTracked(file.path)) {
+				await this.deleteFile(file);
 			} else {
 				console.log("File not tracked", file.path);
 			}
 		}));
-		this.registerEvent(this.app.vault.on("rename", async (file: TFile, oldPath: string) => {
-			// on file rename, delete old file and register new file
-			if (this.fileCache.isTracked(oldPath)) {
-				await this.deleteFileByPath(oldPath, this.getSharedRoot(file));
-				if (this.fileCache.acquireLock(file.path)) {
-					this.trySync(file);
-					this.fileCache.releaseLock(file.path);
-				}
+		this.registerEvent(this.app.vault.on("rename", async (file: TAbstractFile, oldPath: string) => {
+			if (file instanceof TFolder) {
+				// mount points ride along with whatever folder they're in
+				await this.remount(oldPath, file.path);
+			}
+			if (this.expectedRenames[oldPath] === file.path) {
+				// we did this one to follow a remote move
+				delete this.expectedRenames[oldPath];
+				return;
+			}
+			// on rename, move the file on the broker so it keeps its identity
+			try {
+				await this.moveFile(file, oldPath);
+			} catch (e) {
+				console.log("Failed to move", oldPath, "to", file.path, e);
 			}
 		}));
-		this.registerInterval(window.setInterval(async () => {
+		this.registerInterval(window.setInterval(() => {
 			// every Xs, sync all open files
-			let syncLeaf = async (leaf : WorkspaceLeaf) => {
-				if (leaf.view instanceof FileView) {
-					let file: TFile | null = leaf.view.file;
-					if (file && this.fileCache.isTracked(file.path) && this.fileCache.acquireLock(file.path)) {
-						await this.trySync(file);
-						this.fileCache.releaseLock(file.path);
-					}
+			if (this.isBackgrounded()) {
+				return;
+			}
+			for (let file of this.getOpenFiles()) {
+				// live roots get told when something changed, local edits go out on modify
+				if (this.isPathLive(file.path) || !this.fileCache.isTracked(file.path)) {
+					continue;
 				}
+				this.scheduler.schedule(file.path, this.getSyncPriority(file.path));
 			}
-			await this.app.workspace.getLeavesOfType("markdown").forEach(async (leaf) => {
-				await syncLeaf(leaf);
-			});
-			await this.app.workspace.getLeavesOfType("canvas").forEach(async (leaf) => {
-				await syncLeaf(leaf);
-			});
 		}, OPEN_IDLE_SYNC_FREQUENCY_MS * (1 + Math.random() * 0.1)));
-		this.registerInterval(window.setInterval(() => {
-			// every Xs, enqueue files to be refreshed
-			let sharedFolders = Object.keys(this.settings.sharedFolders).map((folder) => this.getRootPath(folder));
+		this.registerInterval(window.setInterval(async () => {
+			// every Xs, refresh every file, a batch request per folder
+			if (this.isBackgrounded()) {
+				return;
+			}
+			let sharedFolders = Object.keys(this.settings.sharedFolders).filter((folder) => !this.isFolderLive(folder));
 			for (let folder of sharedFolders) {
-				let files = this.app.vault.getFiles().filter((file) => {
-					return file.path.startsWith(folder)
-				});
-				for (let file of files) {
-					this.fileCache.pushUpdate(file.path, 0);
-				}
+				await this.refreshFolder(folder);
 			}
 		}, FILE_REFRESH_FREQUENCY_MS * (1 + Math.random() * 0.1)));
-		this.registerInterval(window.setInterval(async () => {
-			// refresh files in the background, respecting a regular calling cadence
-			let path = this.fileCache.getNextUpdate();
-			if (path && this.fileCache.acquireLock(path)) {
-				let file = this.app.vault.getAbstractFileByPath(path);
-				if (file instanceof TFile) {
-					await this.trySync(file);
-				}
-				this.fileCache.releaseLock(path);
-			} else if (path) {
-				console.log("Failed to acquire lock for", path);
-				this.fileCache.pushUpdate(path, 0);
-			} else {
-				// console.log("No updates to process");
-			}
-		}, SYNC_CALL_FREQUENCY_MS * (1 + Math.random() * 0.1)));
+		this.registerInterval(window.setInterval(() => {
+			// start queued syncs whose delay or backoff ran out, finished syncs start the next ones themselves
+			this.scheduler.pump();
+		}, SCHEDULER_TICK_MS));
 		this.registerInterval(window.setInterval(async () => {
 			// every Xs, sync all shared folders
+			if (this.isBackgrounded()) {
+				return;
+			}
 			let sharedFolders = Object.keys(this.settings.sharedFolders);
 			for (let root of sharedFolders) {
+				if (this.isFolderLive(root) && Date.now() - (this.lastRootSync[root] || 0) < LIVE_ROOT_REFRESH_FREQUENCY_MS) {
+					continue;
+				}
 				try {
 					await this.syncRoot(root);
+					await this.setOnline(root);
 				} catch (e) {
+					if (e instanceof BrokerUnreachableError) {
+						this.setOffline(root);
+					} else if (e instanceof AccessDeniedError) {
+						this.onAccessDenied(root, e.message);
+					} else {
+						this.statusTracker.reportError(this.getRootPath(root), String(e));
+					}
 					console.log("Failed to sync root", root, e);
 				}
 			}
 		}, ROOT_REFRESH_FREQUENCY_MS * (1 + Math.random() * 0.1)));
+		this.registerInterval(window.setInterval(async () => {
+			// every Xs, tell collaborators where our cursor is
+			if (!this.isBackgrounded()) {
+				await this.publishPresence();
+			}
+		}, PRESENCE_FREQUENCY_MS));
+		this.registerInterval(window.setInterval(async () => {
+			// every Xs, write shadows and the update queue to disk if anything changed
+			await this.persistSyncState();
+		}, PERSIST_FREQUENCY_MS));
+		this.registerInterval(window.setInterval(async () => {
+			await this.updateStatusBar();
+		}, STATUS_BAR_FREQUENCY_MS));
+		this.registerDomEvent(document, "visibilitychange", () => this.onVisibilityChange());
 
 		console.log('Hello!')
 	}
 
 	onunload() {
-
+		this.saveSettingsLater.run();
+		this.brokers?.closeAll();
+		// best effort, obsidian doesn't wait on unload
+		this.persistSyncState();
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		this.syncUtil = new SyncUtil(this.app, this.settings.brokerEndpoint, this.settings.userId);
+		let data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// copies, so nothing we change ends up in the defaults
+		this.settings.sharedFolders = { ...this.settings.sharedFolders };
+		this.settings.userIds = { ...this.settings.userIds };
+		if (data?.userId) {
+			// from when there was only the one broker
+			this.settings.userIds[this.settings.brokerEndpoint] ??= data.userId;
+			delete (this.settings as PluginSettings & {userId?: string}).userId;
+		}
+		for (let folder of Object.keys(this.settings.sharedFolders)) {
+			let entry: SharedFolder | string = this.settings.sharedFolders[folder];
+			if (typeof entry === "string") {
+				// roots from before access control were open to anyone with the id
+				this.settings.sharedFolders[folder] = { root: entry, token: null, role: "editor", encryption: "none", key: null, excludes: "", broker: null, path: SHARED_FOLDER_ROOT + "/" + folder };
+				continue;
+			}
+			if (!entry.encryption) {
+				entry.encryption = "none";
+				entry.key = null;
+			}
+			if (entry.excludes == null) {
+				entry.excludes = "";
+			}
+			if (entry.broker === undefined) {
+				entry.broker = null;
+			}
+			if (!entry.path) {
+				// everything used to live under Shared/
+				entry.path = SHARED_FOLDER_ROOT + "/" + folder;
+			}
+		}
+		await this.updateCredentials();
+		await this.loadIgnoreRules();
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		await this.updateCredentials();
+		await this.loadIgnoreRules();
+		this.updatePushChannels();
+	}
+
+	// obsidian doesn't index dotfiles, so .collabignore is read straight off the disk. It's picked up again on every root sync.
+	async loadIgnoreRules() {
+		let ignoreRules: {[folder: string]: IgnoreRules} = {};
+		for (let folder of Object.keys(this.settings.sharedFolders)) {
+			ignoreRules[folder] = await this.readIgnoreRules(folder);
+		}
+		this.ignoreRules = ignoreRules;
+	}
+
+	async readIgnoreRules(folder: string) {
+		let path = this.getRootPath(folder) + "/" + IGNORE_FILE;
+		let text = "";
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				text = await this.app.vault.adapter.read(path);
+			}
+		} catch (e) {
+			console.log("Failed to read", path, e);
+		}
+		return new IgnoreRules(DEFAULT_IGNORE, text, this.settings.sharedFolders[folder].excludes);
+	}
+
+	// ignored files stay local: they are never registered, patched or recreated from the tree
+	isIgnored(path: string, isFolder = false) {
+		let folder = this.getFolderForPath(path);
+		if (!folder || path == this.getRootPath(folder)) {
+			return false;
+		}
+		let rules = this.ignoreRules[folder];
+		return rules != null && rules.isIgnored(this.getLocalizedPathFromRootPath(folder, path), isFolder);
+	}
+
+	// hand tokens and keys from settings to the SyncUtil of each folder's broker, and let go of brokers no folder uses anymore
+	async updateCredentials() {
+		for (let folder of Object.keys(this.settings.sharedFolders)) {
+			let entry = this.settings.sharedFolders[folder];
+			let syncUtil = this.getBroker(folder).syncUtil;
+			if (entry.token) {
+				syncUtil.tokens[entry.root] = entry.token;
+			}
+			if (!syncUtil.rootEncryption[entry.root]) {
+				syncUtil.rootEncryption[entry.root] = { mode: entry.encryption, keySalt: "", keyCheck: "" };
+			}
+			if (entry.key && !syncUtil.ciphers[entry.root]) {
+				syncUtil.ciphers[entry.root] = await RootCipher.fromKey(entry.key, entry.encryption == "paths");
+			}
+		}
+		this.brokers.retain(Object.keys(this.settings.sharedFolders).map((folder) => this.getEndpoint(folder)));
+	}
+
+	getEndpoint(folder: string) {
+		return this.settings.sharedFolders[folder].broker || this.settings.brokerEndpoint;
+	}
+
+	getBrokerAt(endpoint: string) {
+		return this.brokers.get(endpoint, this.settings.userIds[endpoint] || null);
+	}
+
+	getBroker(folder: string) {
+		return this.getBrokerAt(this.getEndpoint(folder));
+	}
+
+	getBrokerForRoot(root: string) {
+		return this.getBroker(this.getFolderForRoot(root)!);
+	}
+
+	// the SyncUtil of the broker a file's folder lives on
+	syncUtilFor(file: TFile) {
+		return this.getBroker(this.getFolderForPath(file.path)!).syncUtil;
+	}
+
+	// A broker we have no user id for has none of our shadows either, like after the folder's endpoint changed.
+	// Registering the tracked files there gets us both. One folder at a time, so they all end up under the same id.
+	async adoptBroker(folder: string) {
+		this.adopting[folder] ??= (async () => {
+			let root = this.settings.sharedFolders[folder].root;
+			let paths = this.fileCache.listTrackedUnder(this.getRootPath(folder)).filter((path) => this.getFolderForPath(path) == folder && !isAttachment(path));
+			console.log("Registering", paths.length, "tracked files of", folder, "with", this.getEndpoint(folder));
+			for (let path of paths) {
+				let file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile) {
+					await this.registerFile(file, root);
+					// local edits the new broker hasn't seen go out from its shadow
+					this.scheduler.schedule(path);
+				}
+			}
+			await this.saveUserIds();
+		})().finally(() => delete this.adopting[folder]);
+		await this.adopting[folder];
+	}
+
+	// after an endpoint change, so folders that moved don't wait for their next sync to find out
+	async adoptNewBrokers() {
+		for (let folder of Object.keys(this.settings.sharedFolders)) {
+			let broker = this.getBroker(folder);
+			if (!broker.syncUtil.userId && !broker.offline) {
+				new Notice("Registering " + this.getRootPath(folder) + " with " + broker.endpoint);
+				await this.adoptBroker(folder);
+			}
+		}
+	}
+
+	// brokers hand out user ids on first contact, they're kept so we stay the same user
+	async saveUserIds() {
+		let changed = false;
+		for (let broker of Object.values(this.brokers.brokers)) {
+			if (broker.syncUtil.userId != null && this.settings.userIds[broker.endpoint] != broker.syncUtil.userId) {
+				this.settings.userIds[broker.endpoint] = broker.syncUtil.userId;
+				console.log("User ID for", broker.endpoint, "set to", broker.syncUtil.userId);
+				changed = true;
+			}
+		}
+		if (changed) {
+			await this.saveSettings();
+		}
+	}
+
+	isReadOnly(path: string) {
+		let folder = this.getFolderForPath(path);
+		return folder != null && this.settings.sharedFolders[folder].role == "viewer";
+	}
+
+	onAccessDenied(folder: string, message: string) {
+		if (!this.accessDenied[folder]) {
+			this.accessDenied[folder] = true;
+			this.statusTracker.reportError(this.getRootPath(folder), message);
+			new Notice("Lost access to shared folder " + folder + ": " + message);
+		}
+	}
+
+	// Where a file stands with the broker, null for files outside shared folders. Without content,
+	// edits that haven't been picked up by a sync yet don't count as pending.
+	getFileSyncState(path: string, content: string | null = null): FileSyncState | null {
+		let folder = this.getFolderForPath(path);
+		if (!folder || this.isIgnored(path)) {
+			return null;
+		}
+		if (this.fileCache.getConflict(path)) {
+			return "conflict";
+		}
+		if (path in this.statusTracker.errors || this.accessDenied[folder]) {
+			return "error";
+		}
+		if (this.getBroker(folder).offline) {
+			return "offline";
+		}
+		let shadow = this.fileCache.fileCache[path];
+		if (!this.fileCache.isTracked(path) || this.fileCache.offlineEdits.includes(path)
+			|| this.fileCache.updateQueue.some((item) => item.path === path)
+			|| (shadow && content != null && content != shadow.content)) {
+			return "pending";
+		}
+		return "synced";
+	}
+
+	async updateStatusBar() {
+		if (!this.statusBarEl) {
+			return;
+		}
+		let file = this.app.workspace.getActiveFile();
+		if (!file || !this.getFolderForPath(file.path)) {
+			renderStatusBar(this.statusBarEl, null, null);
+			return;
+		}
+		let shadow = this.fileCache.fileCache[file.path];
+		let content = shadow && !isAttachment(file.path) ? await this.readContent(file, true) : null;
+		renderStatusBar(this.statusBarEl, this.getFileSyncState(file.path, content), shadow?.lastSynced ?? null);
+	}
+
+	async activateStatusView() {
+		await this.activateView(SYNC_STATUS_VIEW);
+	}
+
+	async activateActivityView() {
+		await this.activateView(ACTIVITY_VIEW);
+	}
+
+	async activateView(type: string) {
+		let leaf = this.app.workspace.getLeavesOfType(type)[0];
+		if (!leaf) {
+			let rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
+			}
+			await rightLeaf.setViewState({ type: type, active: true });
+			leaf = rightLeaf;
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	getActivityRoots(): ActivityRoot[] {
+		let file = this.app.workspace.getActiveFile();
+		let activeFolder = file ? this.getFolderForPath(file.path) : null;
+		let roots = Object.keys(this.settings.sharedFolders).map((folder) => ({
+			folder: folder,
+			root: this.settings.sharedFolders[folder].root,
+			activePath: file && folder == activeFolder ? this.getLocalizedPath(file) : null
+		}));
+		return roots.sort((a, b) => Number(b.activePath != null) - Number(a.activePath != null));
+	}
+
+	async openSharedFile(folder: string, path: string) {
+		let file = this.app.vault.getAbstractFileByPath(this.getRootPath(folder) + "/" + path);
+		if (!(file instanceof TFile)) {
+			new Notice(path + " is no longer in " + folder);
+			return;
+		}
+		await this.app.workspace.getLeaf(false).openFile(file);
+	}
+
+	// remembers who changed file for the activity panel
+	recordActivity(file: TFile, authors: PatchAuthor[]) {
+		let root = this.getSharedRoot(file);
+		let path = this.getLocalizedPath(file);
+		for (let author of authors) {
+			this.activity.record(root, path, author.userId, author.timestamp);
+		}
+	}
+
+	// who an incoming change gets attributed to in the gutter, several people's changes can't be told apart
+	describeChange(authors: PatchAuthor[]): ChangeAuthor {
+		let userIds = [...new Set(authors.map((author) => author.userId))];
+		return {
+			userId: userIds.length == 1 ? userIds[0] : null,
+			name: userIds.length == 0 ? this.describeAuthor(null) : userIds.map((userId) => this.describeAuthor(userId)).join(", ")
+		};
+	}
+
+	updateAuthorGutter() {
+		this.authorGutterExtension.length = 0;
+		if (this.settings.authorGutter) {
+			this.authorGutterExtension.push(authorGutter());
+		}
+		this.app.workspace.updateOptions();
+	}
+
+	getStatusRoots(): StatusRoot[] {
+		return Object.keys(this.settings.sharedFolders).map((folder) => {
+			let rootPath = this.getRootPath(folder);
+			let inRoot = (path: string) => path == rootPath || this.getFolderForPath(path) == folder;
+			return {
+				folder: folder,
+				files: this.getTrackedIn(folder).sort().map((path) => ({
+					path: path,
+					state: this.getFileSyncState(path)!,
+					lastSynced: this.fileCache.fileCache[path]?.lastSynced ?? null
+				})),
+				queued: this.fileCache.updateQueue.filter((item) => inRoot(item.path)),
+				errors: this.statusTracker.recent.filter((error) => inRoot(error.path)),
+				resyncs: this.statusTracker.resyncs.filter((resync) => inRoot(resync.path))
+			};
+		});
+	}
+
+	// sync one file right away instead of waiting for its turn in the queue
+	async retryFile(path: string) {
+		let file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			// gone since it failed
+			this.statusTracker.clearError(path);
+			return;
+		}
+		await this.scheduler.retryNow(path);
+	}
+
+	// the tree right away, then every file in it
+	async retryFolder(folder: string) {
+		try {
+			await this.syncRoot(folder);
+			await this.setOnline(folder);
+		} catch (e) {
+			if (e instanceof BrokerUnreachableError) {
+				this.setOffline(folder);
+			} else if (e instanceof AccessDeniedError) {
+				this.onAccessDenied(folder, e.message);
+			} else {
+				this.statusTracker.reportError(this.getRootPath(folder), String(e));
+			}
+			console.log("Failed to sync root", folder, e);
+			return;
+		}
+		await this.refreshFolder(folder);
+	}
+
+	// Registers a new root for the folder at path and shares it in place, everything in it included, or a new
+	// folder under Shared/ without a path. Goes to the default broker unless given another. Returns the root,
+	// null when it didn't work out.
+	async shareFolder(path: string | null, encryption: EncryptionMode, passphrase: string, endpoint: string | null = null) {
+		path = path ? normalizePath(path) : null;
+		if (path && this.getFolderForMount(path)) {
+			new Notice(path + " is already shared");
+			return null;
+		}
+		if (path && this.app.vault.getAbstractFileByPath(path) instanceof TFile) {
+			new Notice(path + " is a file, not a folder");
+			return null;
+		}
+		try {
+			let cipher: RootCipher | null = null;
+			let salt = "";
+			if (encryption != "none") {
+				let encryptPaths = encryption == "paths";
+				salt = passphrase ? randomSalt() : "";
+				cipher = passphrase ? await RootCipher.fromPassphrase(passphrase, salt, encryptPaths) : await RootCipher.random(encryptPaths);
+			}
+			let { root, token } = await this.getBrokerAt(endpoint || this.settings.brokerEndpoint).syncUtil.registerRoot(cipher, salt);
+			console.log("Registered folder", root);
+			// files that were in another shared folder move over to the new one
+			let outer = path ? this.getFolderForPath(path) : null;
+			let moving = outer ? this.fileCache.listTrackedUnder(path!).filter((tracked) => this.getFolderForPath(tracked) == outer) : [];
+			this.settings.sharedFolders[root] = {
+				root: root, token: token, role: "owner", encryption: encryption,
+				key: cipher ? cipher.exportKey() : null, excludes: "", broker: endpoint, path: path || SHARED_FOLDER_ROOT + "/" + root
+			};
+			await this.saveSettings();
+			for (let tracked of moving) {
+				this.fileCache.removeCachedFile(tracked);
+			}
+			await this.ensureFolder(this.getRootPath(root));
+			new Notice("Sharing " + this.getRootPath(root));
+			// sharing in place uploads what's already there
+			await this.registerUntrackedFiles();
+			return root;
+		} catch (e) {
+			new Notice("Failed to register folder");
+			console.log("Failed to register folder", e);
+			return null;
+		}
+	}
+
+	// Joins the folder behind a share code, mounted at path or under Shared/, from the default broker unless given another
+	async joinShare(code: string, path: string | null, endpoint: string | null = null) {
+		let { root, token, key } = parseShareCode(code);
+		path = path ? normalizePath(path) : SHARED_FOLDER_ROOT + "/" + root;
+		endpoint = endpoint && endpoint != this.settings.brokerEndpoint ? endpoint : null;
+		let syncUtil = this.getBrokerAt(endpoint || this.settings.brokerEndpoint).syncUtil;
+		try {
+			if (token) {
+				syncUtil.tokens[root] = token;
+			}
+			await syncUtil.getRoot(root);
+		} catch (e) {
+			console.log("Failed to register folder", e);
+			if (e.message.contains("Root does not exist")) {
+				new Notice("No shared folder with that code");
+			} else if (e instanceof AccessDeniedError) {
+				new Notice("That share code is not valid anymore");
+			} else {
+				new Notice("Failed to join folder");
+				console.log("Uncaught error", e);
+			}
+			await this.abandonJoin(endpoint, root);
+			return;
+		}
+		let encryption = syncUtil.rootEncryption[root];
+		let entry: SharedFolder = { root: root, token: token, role: syncUtil.rootRoles[root], encryption: encryption.mode, key: null, excludes: "", broker: endpoint, path: path };
+		if (entry.encryption == "none") {
+			await this.joinFolder(entry, null);
+		} else if (key) {
+			await this.joinFolder(entry, await RootCipher.fromKey(key, entry.encryption == "paths"));
+		} else {
+			// the code came without the key, the passphrase derives it
+			new PassphraseModal(this.app, async (passphrase) => {
+				await this.joinFolder(entry, await RootCipher.fromPassphrase(passphrase, encryption.keySalt, entry.encryption == "paths"));
+			}).open();
+		}
+	}
+
+	async joinFolder(entry: SharedFolder, cipher: RootCipher | null) {
+		let syncUtil = this.getBrokerAt(entry.broker || this.settings.brokerEndpoint).syncUtil;
+		if (cipher) {
+			if (await cipher.keyCheck() != syncUtil.rootEncryption[entry.root].keyCheck) {
+				new Notice("Wrong key or passphrase for this folder");
+				await this.abandonJoin(entry.broker, entry.root);
+				return;
+			}
+			entry.key = cipher.exportKey();
+			syncUtil.ciphers[entry.root] = cipher;
+		}
+		if (entry.root in this.settings.sharedFolders) {
+			new Notice("Already joined, mounted at " + this.getRootPath(entry.root));
+			await this.abandonJoin(entry.broker, entry.root);
+			return;
+		}
+		try {
+			await this.ensureFolder(entry.path.split("/").slice(0, -1).join("/"));
+			await this.app.vault.createFolder(entry.path);
+		} catch (e) {
+			new Notice("Can't register a folder that already exists!");
+			console.log("Folder already exists", e);
+			await this.abandonJoin(entry.broker, entry.root);
+			return;
+		}
+		this.settings.sharedFolders[entry.root] = entry;
+		console.log("Registered folder", entry.root);
+		await this.saveSettings();
+		new Notice("Joined, mounted at " + entry.path);
+		// reload the settings tab, joining may have started there
+		this.settingTab.display();
+	}
+
+	// A join that didn't work out leaves nothing behind in the SyncUtil. When the root was joined before,
+	// its own credentials go back in.
+	async abandonJoin(endpoint: string | null, root: string) {
+		let syncUtil = this.getBrokerAt(endpoint || this.settings.brokerEndpoint).syncUtil;
+		delete syncUtil.tokens[root];
+		delete syncUtil.ciphers[root];
+		delete syncUtil.rootEncryption[root];
+		delete syncUtil.rootRoles[root];
+		await this.updateCredentials();
+	}
+
+	// stops syncing the folder on this device, its files stay where they are
+	async leaveFolder(folder: string) {
+		let root = this.settings.sharedFolders[folder].root;
+		this.activity.forget(root);
+		// nothing queued for it may still go out, mounts nested in it keep theirs
+		this.fileCache.forget(root, (path) => this.getFolderForPath(path) == folder);
+		delete this.settings.sharedFolders[folder];
+		await this.saveSettings();
+	}
+
+	confirmLeaveFolder(folder: string) {
+		let entry = this.settings.sharedFolders[folder];
+		new LeaveFolderModal(this.app, entry.path, entry.role == "owner", async () => {
+			await this.leaveFolder(folder);
+			new Notice("Left " + entry.path);
+		}).open();
+	}
+
+	// Owners hand out an editor invite, the same one every time until it's revoked. Everyone else passes on
+	// the code they joined with.
+	async copyShareLink(folder: string) {
+		let entry = this.settings.sharedFolders[folder];
+		try {
+			let token = entry.role == "owner" ? (await this.getEditorInvite(folder)).token : entry.token || "";
+			await navigator.clipboard.writeText(formatShareLink(formatShareCode(entry.root, token, entry.key), this.getEndpoint(folder)));
+			new Notice("Share link for " + entry.path + " copied");
+		} catch (e) {
+			new Notice("Failed to create invite");
+			console.log("Failed to create invite", e);
+		}
+	}
+
+	async getEditorInvite(folder: string) {
+		let syncUtil = this.getBroker(folder).syncUtil;
+		let root = this.settings.sharedFolders[folder].root;
+		let invites = await syncUtil.listInvites(root);
+		return invites.find((invite) => invite.role == "editor") || await syncUtil.createInvite(root, "editor");
+	}
+
+	updatePushChannels() {
+		if (!this.brokers) {
+			return;
+		}
+		for (let broker of Object.values(this.brokers.brokers)) {
+			let folders = Object.keys(this.settings.sharedFolders).filter((folder) => this.getEndpoint(folder) == broker.endpoint);
+			broker.pushChannel.setRoots(this.settings.realtimeUpdates ? folders.map((folder) => this.settings.sharedFolders[folder].root) : []);
+		}
+	}
+
+	// the shared folder mounted exactly at path
+	getFolderForMount(path: string) {
+		return Object.keys(this.settings.sharedFolders).find((folder) => this.settings.sharedFolders[folder].path == path) || null;
+	}
+
+	// maps a shared root id back to its key in sharedFolders
+	getFolderForRoot(root: string) {
+		return Object.keys(this.settings.sharedFolders).find((folder) => this.settings.sharedFolders[folder].root === root) || null;
+	}
+
+	// the deepest mount the path is in, so files of a nested mount don't count for the one around it
+	getFolderForPath(path: string) {
+		let best: string | null = null;
+		for (let folder of Object.keys(this.settings.sharedFolders)) {
+			let mount = this.getRootPath(folder);
+			if ((path == mount || path.startsWith(mount + "/")) && (best == null || mount.length > this.getRootPath(best).length)) {
+				best = folder;
+			}
+		}
+		return best;
+	}
+
+	getFilesIn(folder: string) {
+		return this.app.vault.getFiles().filter((file) => this.getFolderForPath(file.path) == folder);
+	}
+
+	getTrackedIn(folder: string) {
+		return this.fileCache.listTrackedUnder(this.getRootPath(folder)).filter((path) => this.getFolderForPath(path) == folder);
+	}
+
+	isFolderLive(folder: string) {
+		return this.getBroker(folder).pushChannel.isLive(this.settings.sharedFolders[folder].root);
+	}
+
+	isPathLive(path: string) {
+		let folder = this.getFolderForPath(path);
+		return folder != null && this.isFolderLive(folder);
+	}
+
+	async onBrokerEvent(event: BrokerEvent) {
+		let folder = this.getFolderForRoot(event.root);
+		if (!folder) {
+			return;
+		}
+		if (event.type == "presence") {
+			this.presence.update(event.root, event.peers);
+			this.activity.rememberNames(event.peers);
+			this.renderPresence();
+		} else if (event.type == "tree-changed") {
+			try {
+				await this.syncRoot(folder);
+			} catch (e) {
+				console.log("Failed to sync root", folder, e);
+			}
+		} else if (event.type == "file-changed") {
+			if (event.userId != null && event.userId === this.getBroker(folder).syncUtil.userId) {
+				// our own patch coming back
+				return;
+			}
+			let file = this.app.vault.getAbstractFileByPath(this.getRootPath(folder) + "/" + event.path);
+			if (!(file instanceof TFile) || this.getFolderForPath(file.path) != folder) {
+				return;
+			}
+			await this.scheduler.syncNow(file.path, this.getSyncPriority(file.path));
+		}
+	}
+
+	// Mobile suspends the app in the background, timers that still fire then would only queue requests
+	// that go out stale. Desktop keeps syncing while minimized.
+	isBackgrounded() {
+		return Platform.isMobile && document.hidden;
+	}
+
+	async onVisibilityChange() {
+		if (document.hidden) {
+			this.hiddenSince = Date.now();
+			// we may be killed without another chance to save
+			await this.persistSyncState();
+			return;
+		}
+		let away = this.hiddenSince == null ? 0 : Date.now() - this.hiddenSince;
+		this.hiddenSince = null;
+		if (away < RESUME_CATCH_UP_AFTER_MS) {
+			return;
+		}
+		console.log("Back after", Math.round(away / 1000), "s, catching up");
+		// sockets rarely survive a suspend
+		for (let broker of Object.values(this.brokers.brokers)) {
+			broker.pushChannel.reconnectNow();
+		}
+		for (let folder of Object.keys(this.settings.sharedFolders)) {
+			await this.retryFolder(folder);
+		}
+	}
+
+	async publishPresence() {
+		let displayName = this.settings.displayName || "Anonymous";
+		let view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		let file = view?.file;
+		let folder = file ? this.getFolderForPath(file.path) : null;
+		let root = folder ? this.settings.sharedFolders[folder].root : null;
+		if (this.presenceRoot && this.presenceRoot != root) {
+			// let the root we left know we're gone, unless we left the folder altogether
+			let previous = this.presenceRoot;
+			this.presenceRoot = null;
+			this.lastPresence = "";
+			this.presence.clear(previous);
+			try {
+				if (this.getFolderForRoot(previous)) {
+					await this.getBrokerForRoot(previous).syncUtil.postPresence(previous, displayName, null, null);
+				}
+			} catch (e) {
+				console.log("Failed to clear presence", previous, e);
+			}
+		}
+		let broker = folder ? this.getBroker(folder) : null;
+		if (!view || !file || !root || !broker || broker.offline || !broker.syncUtil.userId) {
+			this.renderPresence();
+			return;
+		}
+		let editor = view.editor;
+		let cursor = {
+			anchor: editor.posToOffset(editor.getCursor("anchor")),
+			head: editor.posToOffset(editor.getCursor("head"))
+		};
+		let path = this.getLocalizedPath(file);
+		let state = JSON.stringify([path, cursor, displayName]);
+		if (state == this.lastPresence && Date.now() - this.lastPresenceSent < PRESENCE_HEARTBEAT_MS) {
+			return;
+		}
+		try {
+			let peers = await broker.syncUtil.postPresence(root, displayName, path, cursor);
+			this.presenceRoot = root;
+			this.lastPresence = state;
+			this.lastPresenceSent = Date.now();
+			this.presence.update(root, peers);
+			this.activity.rememberNames(peers);
+			this.renderPresence();
+		} catch (e) {
+			console.log("Failed to publish presence", e);
+		}
+	}
+
+	// draw remote cursors and avatars into every open markdown view
+	renderPresence() {
+		for (let leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			let view = leaf.view;
+			if (!(view instanceof MarkdownView) || !view.file) {
+				continue;
+			}
+			let folder = this.getFolderForPath(view.file.path);
+			let peers = folder ? this.presence.peersForFile(this.settings.sharedFolders[folder].root, this.getLocalizedPath(view.file), this.getBroker(folder).syncUtil.userId) : [];
+			// obsidian doesn't expose the codemirror view in its types
+			let cm = (view.editor as unknown as { cm?: EditorView }).cm;
+			cm?.dispatch({
+				effects: setRemoteCursors.of(peers.filter((peer) => peer.cursor != null).map((peer) => ({
+					userId: peer.userId,
+					displayName: peer.displayName,
+					anchor: peer.cursor!.anchor,
+					head: peer.cursor!.head
+				})))
+			});
+			let avatarsEl = view.containerEl.querySelector<HTMLElement>(".collab-presence-avatars");
+			if (!avatarsEl) {
+				let actionsEl = view.containerEl.querySelector(".view-actions");
+				if (!actionsEl) {
+					continue;
+				}
+				avatarsEl = createDiv({ cls: "collab-presence-avatars" });
+				actionsEl.parentElement?.insertBefore(avatarsEl, actionsEl);
+			}
+			renderAvatars(avatarsEl, peers);
+		}
+	}
+
+	// a push channel (re)connected, catch up on anything we missed while it was down
+	async onPushLive(root: string) {
+		let folder = this.getFolderForRoot(root);
+		if (!folder) {
+			return;
+		}
+		try {
+			await this.syncRoot(folder);
+		} catch (e) {
+			console.log("Failed to sync root", folder, e);
+		}
+		for (let file of this.getFilesIn(folder)) {
+			this.scheduler.schedule(file.path);
+		}
+	}
+
+	async restoreSyncState() {
+		let pluginDir = this.manifest.dir || (this.app.vault.configDir + "/plugins/" + this.manifest.id);
+		this.syncState = new SyncStateStore(this.app.vault.adapter, pluginDir + "/sync-state.json");
+		this.historyStore = new HistoryStore(this.app.vault.adapter, pluginDir + "/history.json");
+		let history = await this.historyStore.load();
+		if (history) {
+			this.history.loadState(history);
+		}
+		this.activityStore = new ActivityStore(this.app.vault.adapter, pluginDir + "/activity.json");
+		let activity = await this.activityStore.load();
+		if (activity) {
+			this.activity.loadState(activity);
+		}
+		let state = await this.syncState.load();
+		if (state) {
+			this.fileCache.loadState(state);
+			console.log("Restored sync state for", Object.keys(state.fileCache).length, "files");
+			// retry edits made offline before the last shutdown, they get re-marked if we're still offline
+			for (let path of this.fileCache.takeOfflineEdits()) {
+				this.scheduler.schedule(path);
+			}
+		}
+	}
+
+	// offline goes per broker, folders on the others keep syncing
+	setOffline(folder: string) {
+		let broker = this.getBroker(folder);
+		if (!broker.offline) {
+			broker.offline = true;
+			console.log("Broker", broker.endpoint, "unreachable, switching to offline mode");
+			new Notice("Can't reach the broker at " + broker.endpoint + ". Edits will sync once it's back.");
+		}
+	}
+
+	async setOnline(folder: string) {
+		let broker = this.getBroker(folder);
+		if (!broker.offline) {
+			return;
+		}
+		broker.offline = false;
+		let onBroker = (root: string | null) => root != null && this.getEndpoint(root) == broker.endpoint;
+		// moves first, so offline edits go out under the right names
+		for (let move of this.fileCache.takePendingMoves((move) => onBroker(this.getFolderForRoot(move.root)))) {
+			try {
+				await broker.syncUtil.moveFile(move.from, move.to, move.root, move.fileId);
+			} catch (e) {
+				console.log("Failed to replay move", move, e);
+			}
+		}
+		for (let pending of this.fileCache.takePendingDeletes((pending) => onBroker(this.getFolderForRoot(pending.root)))) {
+			let folder = this.getFolderForRoot(pending.root)!;
+			try {
+				await broker.syncUtil.deleteFile(pending.path, pending.root);
+			} catch (e) {
+				if (e instanceof BrokerUnreachableError) {
+					// gone again, keep it for next time
+					this.fileCache.addPendingDelete(pending);
+					continue;
+				}
+				console.log("Failed to replay delete", pending, e);
+				this.statusTracker.reportError(this.getRootPath(folder) + "/" + pending.path, "Couldn't delete it on the broker: " + e.message);
+			}
+		}
+		let paths = this.fileCache.takeOfflineEdits((path) => onBroker(this.getFolderForPath(path)));
+		console.log("Broker", broker.endpoint, "reachable again, syncing", paths.length, "offline edits");
+		new Notice("Broker reachable again, syncing offline edits");
+		for (let path of paths) {
+			this.scheduler.schedule(path);
+		}
+		await this.registerUntrackedFiles();
+	}
+
+	async persistSyncState() {
+		if (this.historyStore && this.history.dirty) {
+			this.history.dirty = false;
+			try {
+				await this.historyStore.save(this.history.toState());
+			} catch (e) {
+				this.history.dirty = true;
+				console.log("Failed to persist history", e);
+			}
+		}
+		if (this.activityStore && this.activity.dirty) {
+			this.activity.dirty = false;
+			try {
+				await this.activityStore.save(this.activity.toState());
+			} catch (e) {
+				this.activity.dirty = true;
+				console.log("Failed to persist activity log", e);
+			}
+		}
+		if (!this.syncState || !this.fileCache.dirty) {
+			return;
+		}
+		// clear first so changes made while we're writing get picked up next round
+		this.fileCache.dirty = false;
+		try {
+			await this.syncState.save(this.fileCache.toState());
+		} catch (e) {
+			this.fileCache.dirty = true;
+			console.log("Failed to persist sync state", e);
+		}
+	}
+
+	// files restored from the persisted cache keep their shadow, only new ones get registered
+	async registerUntrackedFiles() {
 		let sharedFolders = Object.keys(this.settings.sharedFolders);
 		for (let folder of sharedFolders) {
-			let files = this.app.vault.getFiles().filter((file) => {
-				file.path.startsWith(folder)
-			});
+			let files = this.getFilesIn(folder).filter((file) => !this.fileCache.isTracked(file.path));
 			for (let file of files) {
-				await this.registerFile(file, this.settings.sharedFolders[folder]);
+				await this.registerFile(file, this.settings.sharedFolders[folder].root);
 			}
 		}
-		if (this.settings.userId == null && this.syncUtil.userId != null) {
-			this.settings.userId = this.syncUtil.userId;
+		await this.saveUserIds();
+	}
+
+	// the mount point of a shared folder
+	getRootPath(root: string) {
+		return this.settings.sharedFolders[root].path;
+	}
+
+	getLocalizedPath(file: TFile) {
+		let root = this.getFolderForPath(file.path)!;
+		return this.getLocalizedPathFromRootPath(root, file.path);
+	}
+
+	getLocalizedPathFromRootPath(root: string, path: string) {
+		let root_path = this.getRootPath(root);
+		if (!path) {
+			throw new Error("No path provided");
+		}
+		let path_local = path.slice(root_path.length);
+		// remove leading slash
+		if (path_local.startsWith("/")) {
+			path_local = path_local.slice(1);
+		}
+		return path_local;
+	}
+
+	// handles when root isn't the shared uuid (old behavior)
+	getSharedRoot(file: TFile) {
+		let folder = this.getFolderForPath(file.path);
+		if (folder == null) {
+			throw new Error("File not in shared folder: " + file.path);
+		}
+		return this.settings.sharedFolders[folder].root;
+	}
+
+	// A shared folder's mount point, or a folder around it, was renamed. Only where it's mounted changes,
+	// the broker never sees mount points. Returns whether any mount moved.
+	async remount(oldPath: string, newPath: string) {
+		let moved = Object.keys(this.settings.sharedFolders).filter((folder) => {
+			let mount = this.getRootPath(folder);
+			return mount == oldPath || mount.startsWith(oldPath + "/");
+		});
+		// collect before moving anything, nested mounts change what belongs where
+		let tracked = moved.map((folder) => this.getTrackedIn(folder));
+		moved.forEach((folder, i) => {
+			let entry = this.settings.sharedFolders[folder];
+			entry.path = newPath + entry.path.slice(oldPath.length);
+			console.log("Shared folder", folder, "is now mounted at", entry.path);
+			for (let path of tracked[i]) {
+				this.fileCache.renamePath(path, newPath + path.slice(oldPath.length));
+				this.history.rename(path, newPath + path.slice(oldPath.length));
+			}
+		});
+		if (moved.length > 0) {
 			await this.saveSettings();
-			console.log("User ID set to", this.settings.userId);
 		}
+		return moved.length > 0;
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	// move a mount point from the settings
+	async moveMount(folder: string, newPath: string) {
+		newPath = normalizePath(newPath);
+		let mount = this.app.vault.getFolderByPath(this.getRootPath(folder));
+		if (this.app.vault.getAbstractFileByPath(newPath)) {
+			new Notice(newPath + " already exists");
+			return;
+		}
+		if (!mount) {
+			this.settings.sharedFolders[folder].path = newPath;
+			await this.saveSettings();
+			return;
+		}
+		await this.ensureFolder(newPath.split("/").slice(0, -1).join("/"));
+		// the rename event does the remounting
+		await this.app.vault.rename(mount, newPath);
+	}
+
+	async syncRoot(root: string) {
+		// check if the root exists
+		if (!(root in this.settings.sharedFolders)) {
+			throw new Error("Root does not exist");
+		}
+		// create our shared folder if it doesn't exist
+		await this.ensureFolder(this.getRootPath(root));
+		// get the root directory
+		let folder = this.getRootPath(root);
+		let entry = this.settings.sharedFolders[root];
+		let tree = await this.getBroker(root).syncUtil.getRoot(entry.root);
+		this.lastRootSync[root] = Date.now();
+		delete this.accessDenied[root];
+		this.statusTracker.clearError(folder);
+		this.ignoreRules[root] = await this.readIgnoreRules(root);
+		// owners can change what an invite allows
+		let role = this.getBroker(root).syncUtil.rootRoles[entry.root];
+		if (role && role != entry.role) {
+			console.log("Role in", root, "is now", role);
+			entry.role = role;
+			await this.saveSettings();
+		}
+		// ignored files are left alone either way, whatever the broker has for them
+		let files = tree.filter((entry) => entry.kind == "file" && !this.isIgnored(folder + "/" + entry.path));
+		// a mount nested in ours owns its part of the tree
+		files = files.filter((entry) => this.getFolderForPath(folder + "/" + entry.path) == root);
+		// files someone else moved keep their id, follow them instead of recreating them
+		for (let entry of files) {
+			if (entry.deleted || !entry.fileId) {
+				continue;
+			}
+			let path = folder + "/" + entry.path;
+			let current = this.fileCache.findPathByFileId(entry.fileId);
+			let file = current && current != path ? this.app.vault.getAbstractFileByPath(current) : null;
+			if (file instanceof TFile) {
+				await this.applyRemoteMove(file, path);
+			}
+		}
+		// walk the tree and create missing files or delete extra files
+		for (let entry of files) {
+			let path = folder + "/" + entry.path;
+			let existing = this.app.vault.getAbstractFileByPath(path);
+			if (entry.deleted) {
+				if (existing instanceof TFile) {
+					await this.removeDeletedFile(existing, entry.author, this.settings.sharedFolders[root].root);
+				}
+			} else if (!existing && !this.fileCache.isPendingDelete(this.settings.sharedFolders[root].root, entry.path)) {
+				// skipping ones we deleted while the broker was unreachable, that delete still has to reach it
+				await this.ensureFolder(path.split("/").slice(0, -1).join("/"));
+				// then create the file
+				if (isAttachment(path)) {
+					await this.downloadAttachment(this.settings.sharedFolders[root].root, entry.path, path);
+				} else {
+					// registering fills it in, live roots don't get another look at untracked files
+					await this.registerFile(await this.app.vault.create(path, ""), this.settings.sharedFolders[root].root);
+				}
+			}
+		}
+		// deepest first, so emptying a folder lets its parent go too
+		let deletedFolders = tree.filter((entry) => entry.kind == "folder" && entry.deleted && this.getFolderForPath(folder + "/" + entry.path) == root).sort((a, b) => b.path.length - a.path.length);
+		for (let entry of deletedFolders) {
+			let existing = this.app.vault.getFolderByPath(folder + "/" + entry.path);
+			// anything still in it is local work the broker hasn't seen, leave it be
+			if (existing && existing.children.length == 0) {
+				console.log("Removing empty folder", existing.path);
+				await this.app.vault.delete(existing);
+			}
+		}
+	}
+
+	// Someone else deleted the file. Edits of ours the broker never saw aren't lost with it, the file becomes
+	// a conflict copy instead and is shared again as a new file.
+	async removeDeletedFile(file: TFile, author: string | null, root: string) {
+		let path = file.path;
+		let unsynced = await this.hasUnsyncedChanges(file, root);
+		// untrack first so neither the delete nor the rename event goes back to the broker
+		this.fileCache.removeCachedFile(path);
+		this.fileCache.takeOfflineEdits((edited) => edited == path);
+		this.fileCache.dropUpdate(path);
+		if (!unsynced) {
+			console.log("Removing", path, "deleted by", author);
+			await this.app.vault.delete(file);
+			return;
+		}
+		let copyPath = conflictCopyPath(path, Date.now());
+		console.log(path, "was deleted by", author, "but has unsynced edits, keeping them as", copyPath);
+		this.expectedRenames[path] = copyPath;
+		try {
+			await this.app.vault.rename(file, copyPath);
+		} catch (e) {
+			// still untracked, the next root sync tries again
+			delete this.expectedRenames[path];
+			console.log("Failed to keep", path, e);
+			return;
+		}
+		new Notice(path + " was deleted by " + this.describeAuthor(author) + ". Your unsynced edits were saved to " + copyPath);
+		await this.registerFile(file, root);
+	}
+
+	// edits the broker hasn't seen: queued while offline, or made since the last sync
+	async hasUnsyncedChanges(file: TFile, root: string) {
+		if (this.fileCache.offlineEdits.includes(file.path)) {
+			return true;
+		}
+		if (isAttachment(file.path)) {
+			let known = this.fileCache.getAttachmentHash(file.path);
+			return known == null || known != await this.getBrokerForRoot(root).syncUtil.attachmentHash(root, await file.vault.readBinary(file));
+		}
+		let shadow = this.fileCache.isTracked(file.path) ? this.fileCache.getCachedFile(file.path).content : "";
+		return await this.readContent(file) != shadow;
+	}
+
+	// create each folder along the path
+	async ensureFolder(path: string) {
+		let current_path = "";
+		for (let current_folder of path.split("/").filter((segment) => segment != "")) {
+			current_path += current_folder + "/";
+			if (!this.app.vault.getFolderByPath(current_path.slice(0, -1))) { // remove trailing slash
+				console.log("Creating folder", current_path);
+				try {
+					await this.app.vault.createFolder(current_path);
+				} catch (e) {
+					console.log("Failed to create folder", current_path, e);
+				}
+			}
+		}
+	}
+
+	// A local rename or folder move. Within a root the broker moves the file (or the whole subtree)
+	// in one operation and its id stays the same. Across roots all we can do is delete and re-register.
+	async moveFile(file: TAbstractFile, oldPath: string) {
+		let oldFolder = this.getFolderForPath(oldPath);
+		let newFolder = this.getFolderForPath(file.path);
+		if (newFolder != null && this.isIgnored(file.path, file instanceof TFolder)) {
+			// moving into an ignored place takes it out of sharing, like moving it out of the folder
+			newFolder = null;
+		}
+		let tracked = file instanceof TFolder ? this.fileCache.listTrackedUnder(oldPath) : (this.fileCache.isTracked(oldPath) ? [oldPath] : []);
+		let newFiles = () => file instanceof TFolder ? this.app.vault.getFiles().filter((child) => child.path.startsWith(file.path + "/")) : [file as TFile];
+		if (tracked.length == 0 || oldFolder == null || oldFolder != newFolder) {
+			if (oldFolder != null) {
+				for (let path of tracked) {
+					this.fileCache.removeCachedFile(path);
+					await this.deleteRemote(oldFolder, this.getLocalizedPathFromRootPath(oldFolder, path));
+				}
+			}
+			if (newFolder != null) {
+				for (let child of newFiles()) {
+					this.scheduler.schedule(child.path);
+				}
+			}
+			return;
+		}
+		if (this.isReadOnly(oldPath)) {
+			new Notice("Can't move " + oldPath + ", the shared folder is read-only");
+			this.expectedRenames[file.path] = oldPath;
+			await this.app.vault.rename(file, oldPath);
+			return;
+		}
+		let root = this.settings.sharedFolders[oldFolder].root;
+		let from = this.getLocalizedPathFromRootPath(oldFolder, oldPath);
+		let to = this.getLocalizedPathFromRootPath(oldFolder, file.path);
+		// move our state first, so patches still pending go out under the new name
+		for (let path of tracked) {
+			this.fileCache.renamePath(path, file.path + path.slice(oldPath.length));
+			this.history.rename(path, file.path + path.slice(oldPath.length));
+		}
+		let fileId = file instanceof TFile ? this.fileCache.getFileId(file.path) : null;
+		try {
+			let landed = await this.getBroker(oldFolder).syncUtil.moveFile(from, to, root, fileId);
+			if (landed != to && file instanceof TFile) {
+				// someone else moved it first, take their name so we don't end up with two copies
+				new Notice(oldPath + " was already moved to " + landed);
+				await this.applyRemoteMove(file, this.getRootPath(oldFolder) + "/" + landed);
+			}
+		} catch (e) {
+			if (e instanceof BrokerUnreachableError) {
+				this.setOffline(oldFolder);
+				this.fileCache.addPendingMove({ root: root, from: from, to: to, fileId: fileId });
+				return;
+			}
+			// the broker refused, put things back the way they were
+			new Notice("Couldn't move " + oldPath + ": " + e.message);
+			for (let path of tracked) {
+				this.fileCache.renamePath(file.path + path.slice(oldPath.length), path);
+				this.history.rename(file.path + path.slice(oldPath.length), path);
+			}
+			this.expectedRenames[file.path] = oldPath;
+			await this.app.vault.rename(file, oldPath);
+		}
 	}
 
-	getRootPath(root: string) {
-		return SHARED_FOLDER_ROOT + "/" + root;
+	// follow a move someone else made
+	async applyRemoteMove(file: TFile, newPath: string) {
+		let oldPath = file.path;
+		if (this.app.vault.getAbstractFileByPath(newPath)) {
+			console.log("Can't follow move of", oldPath, "to", newPath, "the destination exists");
+			return;
+		}
+		console.log("Following remote move of", oldPath, "to", newPath);
+		await this.ensureFolder(newPath.split("/").slice(0, -1).join("/"));
+		this.fileCache.renamePath(oldPath, newPath);
+		this.history.rename(oldPath, newPath);
+		this.expectedRenames[oldPath] = newPath;
+		try {
+			await this.app.vault.rename(file, newPath);
+		} catch (e) {
+			console.log("Failed to follow move", oldPath, newPath, e);
+			delete this.expectedRenames[oldPath];
+			this.fileCache.renamePath(newPath, oldPath);
+			this.history.rename(newPath, oldPath);
+		}
 	}
 
-	getLocalizedPath(file: TFile) {
-		let root = Object.keys(this.settings.sharedFolders).find((folder) => file.path.startsWith(this.getRootPath(folder)))!;
-		return this.getLocalizedPathFromRootPath(root, file.path);
+	// open files are read from the editor, which can be ahead of what's saved to disk
+	async readContent(file: TFile, cached = false) {
+		let editor = getOpenEditor(this.app, file);
+		if (editor) {
+			return editor.getValue();
+		}
+		return cached ? await file.vault.cachedRead(file) : await file.vault.read(file);
 	}
 
-	getLocalizedPathFromRootPath(root: string, path: string) {
-		let root_path = this.getRootPath(root);
-		if (!path) {
-			throw new Error("No path provided");
+	// open files get minimal editor changes so the cursor, selection and undo history survive.
+	// author is who made the change, for the gutter, when it came from someone else.
+	async writeContent(file: TFile, content: string, author: ChangeAuthor | null = null) {
+		if (isCanvas(file.path) && !parseCanvas(content)) {
+			// obsidian would fail to open it, better to leave the last good version and let the sync retry
+			throw new Error("Refusing to write invalid canvas to " + file.path);
 		}
-		let path_local = path.slice(root_path.length);
-		// remove leading slash
-		if (path_local.startsWith("/")) {
-			path_local = path_local.slice(1);
+		let editor = getOpenEditor(this.app, file);
+		if (editor) {
+			applyRemoteText(editor, this.fileCache.diffy, content, author);
+		} else {
+			await file.vault.modify(file, content);
 		}
-		return path_local;
 	}
 
-	// handles when root isn't the shared uuid (old behavior)
-	getSharedRoot(file: TFile) {
-		for (let folder of Object.keys(this.settings.sharedFolders)) {
-			if (file.path.startsWith(this.getRootPath(folder))) {
-				return this.settings.sharedFolders[folder];
-			}
+	async syncPath(path: string) {
+		let file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await this.trySync(file);
 		}
-		throw new Error("File not in shared folder: " + file.path);
 	}
 
-	async syncRoot(root: string) {
-		// check if the root exists
-		if (!(root in this.settings.sharedFolders)) {
-			throw new Error("Root does not exist");
-		}
-		// create our shared folder if it doesn't exist
-		if (!this.app.vault.getFolderByPath(this.getRootPath(root))) {
-			// create each folder along the path
-			let folders = this.getRootPath(root).split("/");
-			let current_path = "";
-			for (let current_folder of folders) {
-				current_path += current_folder + "/";
-				if (!this.app.vault.getFolderByPath(current_path.slice(0, -1))) { // remove trailing slash
-					console.log("Creating folder", current_path);
-					try {
-						await this.app.vault.createFolder(current_path);
-					} catch (e) {
-						console.log("Failed to create folder", current_path, e);
-					}
-				}
+	// files shown in any markdown or canvas pane
+	getOpenFiles() {
+		let files: TFile[] = [];
+		for (let leaf of [...this.app.workspace.getLeavesOfType("markdown"), ...this.app.workspace.getLeavesOfType("canvas")]) {
+			if (leaf.view instanceof FileView && leaf.view.file) {
+				files.push(leaf.view.file);
 			}
 		}
-		// get the root directory
-		let folder = this.getRootPath(root);
-		let tree = await this.syncUtil.getRoot(root);
-		// walk the tree and create missing files or delete extra files
-		for (let localizedPath of tree) {
-			let path = folder + "/" + localizedPath;
-			let file_name = localizedPath.split("/").pop();
-			if (file_name.startsWith("DELETED_")) {
-				let real_file = file_name.slice(8);
-				let real_path = folder + "/" + real_file;
-				let real_file_obj = this.app.vault.getAbstractFileByPath(real_path);
-				if (real_file_obj instanceof TFile) {
-					await this.app.vault.delete(real_file_obj);
-				}
-			}
-			else if (!this.app.vault.getAbstractFileByPath(path)) {
-				// create each folder along the path
-				let folders = path.split("/").slice(0, -1);
-				let current_path = "";
-				for (let current_folder of folders) {
-					current_path += current_folder + "/";
-					if (!this.app.vault.getFolderByPath(current_path.slice(0, -1))) { // remove trailing slash
-						console.log("Creating folder", current_path);
-						try {
-							await this.app.vault.createFolder(current_path);
-						} catch (e) {
-							console.log("Failed to create folder", current_path, e);
-						}
-					}
-				}
-				// then create the file
-				await this.app.vault.create(path, "");
-			}
+		return files;
+	}
+
+	getSyncPriority(path: string) {
+		if (this.app.workspace.getActiveFile()?.path === path) {
+			return PRIORITY_ACTIVE;
 		}
+		return this.getOpenFiles().some((file) => file.path === path) ? PRIORITY_OPEN : PRIORITY_BACKGROUND;
 	}
 
 	async trySync(file: TFile) {
-		if (file.name === "Untitled.md" || file.name === "Untitled.canvas") {
+		if (this.isIgnored(file.path)) {
+			if (this.fileCache.isTracked(file.path)) {
+				// ignored after it was shared, it stays on the broker but we stop syncing it
+				console.log("Ignoring", file.path, "from now on");
+				this.fileCache.removeCachedFile(file.path);
+			}
+			return;
+		}
+		if (isAttachment(file.path) && !this.checkAttachmentSize(file)) {
+			// before the error gets cleared below
 			return;
 		}
 		try {
-			await this.syncLoop(file);
+			if (isAttachment(file.path)) {
+				await this.syncAttachment(file);
+			} else {
+				await this.syncLoop(file);
+			}
+			this.statusTracker.clearError(file.path);
 		} catch (e) {
 			if (e instanceof FileDeletedError) {
-				// file was deleted, remove from cache
-				delete this.fileCache.fileCache[file.path];
+				this.statusTracker.clearError(file.path);
 				console.log("File deleted on remote", file.path);
-				file.vault.delete(file);
+				await this.removeDeletedFile(file, null, this.getSharedRoot(file));
 			} else {
 				console.log("Error syncing file", file.path, e);
+				this.statusTracker.reportError(file.path, String(e));
 				throw e;
 			}
 		}
@@ -264,15 +1568,36 @@ export default class MyPlugin extends Plugin {
 
 	async syncLoop(file: TFile) {
 		if (this.fileCache.isTracked(file.path) && Object.keys(this.settings.sharedFolders).some((root) => file.path.startsWith(this.getRootPath(root)))) {
+			let folder = this.getFolderForPath(file.path)!;
+			let broker = this.getBroker(folder);
+			if (broker.offline) {
+				// leave the shadow at the last acknowledged state, it's the merge base on reconnect
+				this.fileCache.markOfflineEdit(file.path);
+				return;
+			}
+			if (!broker.syncUtil.userId) {
+				// this file included, it gets synced again from its new shadow
+				await this.adoptBroker(folder);
+				if (!broker.syncUtil.userId) {
+					throw new Error("Couldn't register with " + broker.endpoint + ", see the errors of the other files in " + folder);
+				}
+				return;
+			}
 			let path = this.getLocalizedPath(file);
 			let root = this.getSharedRoot(file);
-			let content = await file.vault.cachedRead(file);
+			if (broker.syncUtil.isSealed(root)) {
+				await this.syncSealed(file, path, root);
+				return;
+			}
+			let readOnly = this.isReadOnly(file.path);
 			let checksum = this.fileCache.getChecksum(file.path);
 			let shadow = this.fileCache.getCachedFile(file.path).content;
+			// viewers never send edits, they only pull with an empty patch
+			let content = readOnly ? shadow : await this.readContent(file, true);
 			let outgoing_patch = this.fileCache.getPatchBlock(file.path, content);
 			// get response patch from server
 			try {
-				let response = await this.syncUtil.postPatch({
+				let response = await broker.syncUtil.postPatch({
 					patch: outgoing_patch,
 					path: path,
 					checksum: checksum,
@@ -281,35 +1606,42 @@ export default class MyPlugin extends Plugin {
 					secretKey: null
 				});
 				if (response.status == 200) {
-					// success
-					let incoming_patch: string = response.patch;
-					let incoming_checksum: string = response.checksum;
-					if (incoming_checksum != checksum) {
-						// checksums don't match
-						// leave the file as is and get corrected next patch call
-						return;
-					}
-					// refresh content and ingest patch
-					content = await file.vault.read(file);
-					let content_p = this.fileCache.applyPatch(file.path, content, incoming_patch);
-					if (incoming_patch.length > 0) {
-						await file.vault.modify(file, content_p);
-					}
+					await this.applyIncomingPatch(file, response, shadow, checksum, outgoing_patch);
 				} else if (response.status == 409) {
-					// conflict
+					// conflict, the broker reset our shadow to its content
 					let new_shadow: string = response.content;
 					this.fileCache.updateCachedFile(file.path, new_shadow);
-					console.log("Conflict detected for", file.path, "refreshing content to", new_shadow);
-					file.vault.modify(file, new_shadow);
+					if (readOnly) {
+						await this.writeContent(file, new_shadow);
+						return;
+					}
+					// merge our edits since the last acknowledged shadow onto the remote content
+					content = await this.readContent(file);
+					let merge = this.mergeContent(file.path, shadow, content, new_shadow);
+					if (merge.clean) {
+						console.log("Conflict detected for", file.path, "merged local edits onto remote content");
+						if (merge.content != content) {
+							await this.writeContent(file, merge.content!);
+						}
+						// the merged edits go out on the next pass
+						this.scheduler.schedule(file.path);
+					} else {
+						console.log("Conflict detected for", file.path, "refreshing content to", new_shadow);
+						await this.handleConflict(file, content, new_shadow);
+					}
+				} else if (response.status == 301) {
+					// someone moved it, our patch goes out again under the new name
+					this.fileCache.revert(file.path, shadow);
+					await this.applyRemoteMove(file, this.getRootPath(folder) + "/" + response.content);
+					this.scheduler.schedule(file.path);
 				} else if (response.status == 404) {
 					if (response.content.contains("Root does not exist")) {
 						new Notice("Root does not exist for folder. Removing it!" + file.path);
-						// get the shared folder
-						let root = this.getSharedRoot(file)!;
-						delete this.settings.sharedFolders[root];
+						this.statusTracker.reportError(file.path, "Root does not exist on the broker");
+						await this.leaveFolder(folder);
 					} else {
 						// file not found, remove from cache
-						delete this.fileCache.fileCache[file.path];
+						this.fileCache.removeCachedFile(file.path);
 					}
 				} else {
 					// some other error, log it
@@ -318,8 +1650,18 @@ export default class MyPlugin extends Plugin {
 				}
 			} catch (e) {
 				// revert the shadow
-				console.log("Error syncing file", file.path, e);
 				this.fileCache.revert(file.path, shadow);
+				if (e instanceof AccessDeniedError) {
+					this.onAccessDenied(folder, e.message);
+					return;
+				}
+				if (e instanceof BrokerUnreachableError) {
+					// not an error, the edit stays pending against the reverted shadow
+					this.setOffline(folder);
+					this.fileCache.markOfflineEdit(file.path);
+					return;
+				}
+				console.log("Error syncing file", file.path, e);
 				throw e;
 			}
 		} else if (Object.keys(this.settings.sharedFolders).some((root) => file.path.startsWith(this.getRootPath(root)))) {
@@ -327,39 +1669,539 @@ export default class MyPlugin extends Plugin {
 			await this.registerFile(file, this.getSharedRoot(file));
 		}
 		// Finally, cache our userId if it got set by the server
-		if (this.settings.userId == null && this.syncUtil.userId != null) {
-			this.settings.userId = this.syncUtil.userId;
-			await this.saveSettings();
-			console.log("User ID set to", this.settings.userId);
+		await this.saveUserIds();
+	}
+
+	// canvases merge as data, notes by property and body, everything else as text
+	mergeContent(path: string, base: string, local: string, remote: string) {
+		if (isCanvas(path)) {
+			return mergeCanvas(base, local, remote);
+		}
+		return isMarkdown(path) ? mergeMarkdown(base, local, remote) : threeWayMerge(base, local, remote);
+	}
+
+	// the broker took our patch, take in its own
+	async applyIncomingPatch(file: TFile, response: PatchResponse, shadow: string, checksum: string, outgoing_patch: string) {
+		let readOnly = this.isReadOnly(file.path);
+		let incoming_patch: string = response.patch;
+		let incoming_checksum: string = response.checksum;
+		if (incoming_checksum != checksum) {
+			// checksums don't match
+			// leave the file as is and get corrected next patch call
+			return;
+		}
+		// refresh content and ingest patch
+		let content = readOnly ? shadow : await this.readContent(file);
+		let sent = this.fileCache.getCachedFile(file.path).content;
+		let content_p: string;
+		try {
+			content_p = this.fileCache.applyPatch(file.path, content, incoming_patch);
+		} catch (e) {
+			if (!(e instanceof PatchFailedError)) {
+				throw e;
+			}
+			await this.resyncFile(file, sent, "A patch didn't apply (" + e.message + ")");
+			return;
+		}
+		if (incoming_patch.length > 0 && isCanvas(file.path) && !parseCanvas(content_p)) {
+			// the patch landed on our newer edits as broken JSON, merge them as canvas data instead
+			let merge = mergeCanvas(sent, content, this.fileCache.getCachedFile(file.path).content);
+			if (!merge.clean) {
+				await this.handleConflict(file, content, this.fileCache.getCachedFile(file.path).content);
+				return;
+			}
+			content_p = merge.content!;
+			// our side of the merge still has to go out
+			this.scheduler.schedule(file.path);
+		} else if (incoming_patch.length > 0 && isMarkdown(file.path) && hasPropertyEdits(sent, content)) {
+			// the patch was made against properties we've changed since, merge those by key
+			let merge = mergeMarkdown(sent, content, this.fileCache.getCachedFile(file.path).content);
+			if (merge.clean) {
+				content_p = merge.content!;
+				this.scheduler.schedule(file.path);
+			}
+		}
+		// brokers that don't track authors leave them out, their changes are still someone's
+		let authors = response.authors && response.authors.length > 0 ? response.authors : [{ userId: null, timestamp: Date.now() }];
+		if (incoming_patch.length > 0 || (readOnly && content_p != await this.readContent(file))) {
+			// for viewers this also drops any local edits
+			await this.writeContent(file, content_p, incoming_patch.length > 0 ? this.describeChange(authors) : null);
+		}
+		this.fileCache.markSynced(file.path);
+		let userId = this.syncUtilFor(file).userId;
+		if (outgoing_patch.length > 0) {
+			this.recordActivity(file, [{ userId: userId, timestamp: Date.now() }]);
+		}
+		if (incoming_patch.length > 0) {
+			this.recordActivity(file, authors);
+		}
+		if (incoming_patch.length > 0 || outgoing_patch.length > 0) {
+			// a version mixing several people's changes isn't any one of theirs
+			let author = incoming_patch.length == 0 ? userId : outgoing_patch.length == 0 && authors.length == 1 ? authors[0].userId : null;
+			this.history.record(file.path, this.fileCache.getCachedFile(file.path).content, author);
+		}
+	}
+
+	// Starts a file over from the broker's content and rebases our edits since `base` onto it. For when our shadow
+	// and the broker's no longer agree, like after an incoming patch didn't apply, instead of writing a half patched file.
+	// The broker's shadow of ours is left alone, if it's still off the next sync gets a 409 that lines it up.
+	async resyncFile(file: TFile, base: string, reason: string) {
+		console.log("Resyncing", file.path, "from the broker:", reason);
+		let remote = await this.syncUtilFor(file).fetchContent(this.getLocalizedPath(file), this.getSharedRoot(file));
+		this.fileCache.updateCachedFile(file.path, remote);
+		this.history.record(file.path, remote, null);
+		let content = await this.readContent(file);
+		let merge = this.isReadOnly(file.path) ? { clean: true, content: remote } : this.mergeContent(file.path, base, content, remote);
+		if (merge.clean) {
+			if (merge.content != content) {
+				await this.writeContent(file, merge.content!);
+			}
+			if (merge.content != remote) {
+				this.scheduler.schedule(file.path);
+			}
+			this.fileCache.markSynced(file.path);
+			this.statusTracker.reportResync(file.path, reason + ", resynced and kept local edits");
+		} else {
+			await this.handleConflict(file, content, remote);
+			this.statusTracker.reportResync(file.path, reason + ", resynced and saved local edits as a conflict copy");
+		}
+	}
+
+	// resyncFile for every note in the folder, for when the user no longer trusts what's synced
+	async resyncFolder(folder: string) {
+		let root = this.settings.sharedFolders[folder].root;
+		try {
+			await this.syncRoot(folder);
+		} catch (e) {
+			new Notice("Failed to resync " + this.getRootPath(folder));
+			console.log("Failed to sync root", folder, e);
+			return;
+		}
+		if (this.getBroker(folder).syncUtil.isSealed(root)) {
+			// sealed files go whole every time, a sync is already a resync
+			await this.refreshFolder(folder);
+			return;
+		}
+		for (let file of this.getFilesIn(folder).filter((file) => !this.isIgnored(file.path))) {
+			if (!this.fileCache.isTracked(file.path) || isAttachment(file.path)) {
+				this.scheduler.schedule(file.path);
+				continue;
+			}
+			try {
+				await this.scheduler.locks.run(file.path, () => this.resyncFile(file, this.fileCache.getCachedFile(file.path).content, "Full resync requested"));
+			} catch (e) {
+				console.log("Failed to resync", file.path, e);
+				this.statusTracker.reportError(file.path, String(e));
+			}
+		}
+		new Notice("Resynced " + this.getRootPath(folder));
+	}
+
+	// Refreshes a folder's notes with one batch request instead of a request per note. Whatever the batch
+	// can't settle (conflicts, moves, errors) and everything that never goes in one (attachments, sealed roots,
+	// files not registered yet) is queued for a sync of its own.
+	async refreshFolder(folder: string) {
+		let root = this.settings.sharedFolders[folder].root;
+		let files = this.getFilesIn(folder).filter((file) => !this.isIgnored(file.path));
+		let broker = this.getBroker(folder);
+		// without a user id the single file syncs register us first
+		let batchable = broker.offline || !broker.syncUtil.userId || broker.syncUtil.isSealed(root) ? [] : files.filter((file) => this.fileCache.isTracked(file.path) && !isAttachment(file.path));
+		for (let file of files) {
+			if (!batchable.includes(file)) {
+				this.scheduler.schedule(file.path);
+			}
+		}
+		for (let i = 0; i < batchable.length; i += MAX_BATCH_FILES) {
+			await this.syncBatch(root, batchable.slice(i, i + MAX_BATCH_FILES));
+		}
+	}
+
+	async syncBatch(root: string, files: TFile[]) {
+		let held: {file: TFile, release: () => void, shadow: string, checksum: string, patch: string}[] = [];
+		for (let file of files) {
+			// files syncing right now or backing off get their turn from the scheduler
+			let release = this.scheduler.tryLock(file.path);
+			if (!release) {
+				continue;
+			}
+			let shadow = this.fileCache.getCachedFile(file.path).content;
+			let checksum = this.fileCache.getChecksum(file.path);
+			// an empty patch makes it a probe, which costs the broker next to nothing when the file didn't change
+			let content = this.isReadOnly(file.path) ? shadow : await this.readContent(file, true);
+			held.push({ file: file, release: release, shadow: shadow, checksum: checksum, patch: this.fileCache.getPatchBlock(file.path, content) });
+		}
+		if (held.length == 0) {
+			return;
+		}
+		try {
+			let results = await this.getBrokerForRoot(root).syncUtil.postPatchBatch(root, held.map((entry) => ({
+				path: this.getLocalizedPath(entry.file),
+				checksum: entry.checksum,
+				patch: entry.patch
+			})));
+			for (let [i, entry] of held.entries()) {
+				let result = results[i];
+				try {
+					if (result.status == 304) {
+						this.fileCache.markSynced(entry.file.path);
+					} else if (result.status == 200) {
+						await this.applyIncomingPatch(entry.file, result, entry.shadow, entry.checksum, entry.patch);
+					} else {
+						// the single file sync knows how to handle the rest
+						this.fileCache.revert(entry.file.path, entry.shadow);
+						this.scheduler.schedule(entry.file.path);
+						continue;
+					}
+					this.statusTracker.clearError(entry.file.path);
+				} catch (e) {
+					console.log("Error syncing file", entry.file.path, e);
+					this.fileCache.revert(entry.file.path, entry.shadow);
+					this.statusTracker.reportError(entry.file.path, String(e));
+					this.scheduler.schedule(entry.file.path);
+				}
+			}
+		} catch (e) {
+			for (let entry of held) {
+				this.fileCache.revert(entry.file.path, entry.shadow);
+			}
+			if (e instanceof BrokerUnreachableError) {
+				this.setOffline(this.getFolderForRoot(root)!);
+				for (let entry of held.filter((entry) => entry.patch.length > 0)) {
+					this.fileCache.markOfflineEdit(entry.file.path);
+				}
+			} else if (e instanceof AccessDeniedError) {
+				this.onAccessDenied(this.getFolderForRoot(root)!, e.message);
+			} else {
+				console.log("Batch sync failed for", root, e);
+				for (let entry of held) {
+					this.scheduler.schedule(entry.file.path);
+				}
+			}
+		} finally {
+			for (let entry of held) {
+				entry.release();
+			}
+		}
+	}
+
+	// Sealed roots can't take patches, so the whole content goes out, guarded by a checksum of our shadow.
+	// When someone else got there first we merge locally, like a 409 in syncLoop.
+	async syncSealed(file: TFile, path: string, root: string) {
+		let shadow = this.fileCache.getCachedFile(file.path).content;
+		let readOnly = this.isReadOnly(file.path);
+		let content = await this.readContent(file, true);
+		try {
+			// nothing to send for viewers or unchanged files, but we still learn about remote changes
+			let outgoing = readOnly || content == shadow ? null : content;
+			let response = await this.syncUtilFor(file).postSealedPatch(path, root, shadow, outgoing);
+			if (response.status == 200) {
+				if (outgoing != null) {
+					this.fileCache.updateCachedFile(file.path, outgoing);
+					this.history.record(file.path, outgoing, this.syncUtilFor(file).userId);
+					this.recordActivity(file, [{ userId: this.syncUtilFor(file).userId, timestamp: Date.now() }]);
+				} else if (readOnly && content != shadow) {
+					await this.writeContent(file, shadow);
+				}
+				this.fileCache.markSynced(file.path);
+			} else if (response.status == 409) {
+				let remote = response.content;
+				this.fileCache.updateCachedFile(file.path, remote);
+				this.history.record(file.path, remote, null);
+				// sealed responses don't say whose content it is
+				this.recordActivity(file, [{ userId: null, timestamp: Date.now() }]);
+				content = await this.readContent(file);
+				if (readOnly) {
+					await this.writeContent(file, remote, this.describeChange([]));
+					return;
+				}
+				let merge = this.mergeContent(file.path, shadow, content, remote);
+				if (merge.clean) {
+					if (merge.content != content) {
+						await this.writeContent(file, merge.content!, this.describeChange([]));
+					}
+					// the merged edits go out on the next pass
+					if (merge.content != remote) {
+						this.scheduler.schedule(file.path);
+					}
+				} else {
+					console.log("Conflict detected for", file.path);
+					await this.handleConflict(file, content, remote);
+				}
+			} else if (response.status == 301) {
+				let folder = this.getFolderForPath(file.path)!;
+				await this.applyRemoteMove(file, this.getRootPath(folder) + "/" + response.content);
+				this.scheduler.schedule(file.path);
+			} else if (response.status == 404) {
+				this.fileCache.removeCachedFile(file.path);
+			} else {
+				console.log("Error syncing file", file.path, response);
+				throw new Error("Server error: " + response.content);
+			}
+		} catch (e) {
+			if (e instanceof AccessDeniedError) {
+				this.onAccessDenied(this.getFolderForPath(file.path)!, e.message);
+				return;
+			}
+			if (e instanceof BrokerUnreachableError) {
+				this.setOffline(this.getFolderForPath(file.path)!);
+				this.fileCache.markOfflineEdit(file.path);
+				return;
+			}
+			throw e;
+		}
+	}
+
+	// Attachments sync whole: publish ours if it changed since we last synced, otherwise take the broker's
+	async syncAttachment(file: TFile) {
+		let folder = this.getFolderForPath(file.path);
+		if (!folder) {
+			return;
+		}
+		let broker = this.getBroker(folder);
+		let syncUtil = broker.syncUtil;
+		if (broker.offline) {
+			this.fileCache.markOfflineEdit(file.path);
+			return;
+		}
+		if (!this.checkAttachmentSize(file)) {
+			return;
+		}
+		let root = this.getSharedRoot(file);
+		let path = this.getLocalizedPath(file);
+		try {
+			let data = await file.vault.readBinary(file);
+			let hash = await syncUtil.attachmentHash(root, data);
+			let known = this.fileCache.getAttachmentHash(file.path);
+			let info = await syncUtil.getAttachment(path, root);
+			let remote = info?.hash || null;
+			this.fileCache.setFileId(file.path, info?.fileId || null);
+			// viewers only ever take the broker's copy
+			if (!this.isReadOnly(file.path) && remote != hash && (hash != known || remote == null)) {
+				let result = await syncUtil.putAttachment(path, root, hash, known, data);
+				let accepted = result.hash;
+				this.fileCache.setFileId(file.path, result.fileId);
+				if (accepted == hash) {
+					this.fileCache.setAttachmentHash(file.path, hash);
+					return;
+				}
+				// someone replaced it first, keep theirs and save ours next to it
+				let copyPath = conflictCopyPath(file.path, Date.now());
+				console.log("Attachment conflict for", file.path, "saving ours to", copyPath);
+				await this.app.vault.createBinary(copyPath, data);
+				remote = accepted;
+			}
+			if (remote && remote != hash) {
+				await file.vault.modifyBinary(file, await syncUtil.downloadBlob(root, remote));
+			}
+			if (remote) {
+				this.fileCache.setAttachmentHash(file.path, remote);
+			}
+		} catch (e) {
+			if (e instanceof BrokerUnreachableError) {
+				this.setOffline(folder);
+				this.fileCache.markOfflineEdit(file.path);
+				return;
+			}
+			throw e;
+		}
+	}
+
+	// attachments over the limit stay local, the status view says so
+	checkAttachmentSize(file: TFile) {
+		if (file.stat.size <= MAX_ATTACHMENT_BYTES) {
+			return true;
+		}
+		console.log("Attachment too large to sync", file.path);
+		this.statusTracker.reportError(file.path, "Larger than the " + MAX_ATTACHMENT_BYTES / 1024 / 1024 + " MB limit for attachments, not synced");
+		return false;
+	}
+
+	// create a local copy of an attachment that only exists on the broker
+	async downloadAttachment(root: string, localizedPath: string, path: string) {
+		let syncUtil = this.getBrokerForRoot(root).syncUtil;
+		let info = await syncUtil.getAttachment(localizedPath, root);
+		if (!info) {
+			return;
+		}
+		await this.app.vault.createBinary(path, await syncUtil.downloadBlob(root, info.hash));
+		this.fileCache.setAttachmentHash(path, info.hash);
+		this.fileCache.setFileId(path, info.fileId);
+	}
+
+	// keep the remote version in place, save ours next to it and let the user decide
+	async handleConflict(file: TFile, mine: string, theirs: string) {
+		await this.writeContent(file, theirs);
+		let detected = Date.now();
+		let copyPath = conflictCopyPath(file.path, detected);
+		try {
+			await this.app.vault.create(copyPath, mine);
+		} catch (e) {
+			console.log("Failed to save conflict copy", copyPath, e);
+		}
+		let conflict: ConflictRecord = {
+			path: file.path,
+			copyPath: copyPath,
+			mine: mine,
+			detected: detected
+		};
+		this.fileCache.addConflict(conflict);
+		if (this.app.workspace.getActiveFile()?.path == file.path) {
+			await this.openConflict(conflict);
+		} else {
+			new Notice("Conflicting edits in " + file.path + ". Your version was saved to " + copyPath);
+		}
+	}
+
+	// a name for whoever made a version, from presence when they're around
+	describeAuthor(author: string | null) {
+		if (author == null) {
+			return "Someone";
+		}
+		// we're a different user on each broker
+		if (Object.values(this.settings.userIds).includes(author)) {
+			return "You";
+		}
+		for (let peers of Object.values(this.presence.peers)) {
+			let peer = peers.find((peer) => peer.userId === author);
+			if (peer && peer.displayName) {
+				return peer.displayName;
+			}
+		}
+		return this.activity.names[author] || author.slice(0, 8);
+	}
+
+	async showHistory(file: TFile) {
+		let versions = this.history.list(file.path);
+		try {
+			let remote = await this.syncUtilFor(file).getHistory(this.getLocalizedPath(file), this.getSharedRoot(file));
+			if (remote) {
+				versions = mergeVersions(versions, remote.map((version): Version => ({ ...version, source: "broker" })));
+			}
+		} catch (e) {
+			// offline or not allowed, what we captured ourselves still helps
+			console.log("Failed to fetch history for", file.path, e);
+		}
+		let current = await this.readContent(file);
+		new HistoryModal(this.app, file.path, current, versions, this.fileCache.diffy, (author) => this.describeAuthor(author), async (version) => {
+			if (this.isReadOnly(file.path)) {
+				new Notice("Can't restore, the shared folder is read-only");
+				return;
+			}
+			// goes out as a normal patch on the next sync
+			await this.writeContent(file, version.content);
+			this.scheduler.schedule(file.path);
+			new Notice("Restored the version from " + new Date(version.timestamp).toLocaleString());
+		}).open();
+	}
+
+	async openConflict(conflict: ConflictRecord) {
+		let file = this.app.vault.getAbstractFileByPath(conflict.path);
+		if (!(file instanceof TFile)) {
+			// the note is gone, nothing left to resolve against
+			this.fileCache.removeConflict(conflict.path);
+			new Notice("Conflicted file no longer exists: " + conflict.path);
+			return;
+		}
+		let theirs = await this.readContent(file);
+		new ConflictModal(this.app, conflict, theirs, this.fileCache.diffy, async (content) => {
+			await this.resolveConflict(conflict, content);
+		}).open();
+	}
+
+	// content is the resolved text, null keeps whatever is in the note now
+	async resolveConflict(conflict: ConflictRecord, content: string | null) {
+		let file = this.app.vault.getAbstractFileByPath(conflict.path);
+		if (content != null && file instanceof TFile) {
+			// goes out as a normal patch on the next sync
+			await this.app.vault.modify(file, content);
+		}
+		this.fileCache.removeConflict(conflict.path);
+		let copy = this.app.vault.getAbstractFileByPath(conflict.copyPath);
+		if (copy instanceof TFile) {
+			await this.app.vault.delete(copy);
 		}
 	}
 
 	async registerFile(file: TFile, root: string) {
-		if (file.name === "Untitled.md") {
+		if (this.isIgnored(file.path)) {
 			return;
 		}
 		try {
-			let shadow = await this.syncUtil.registerFile(this.getLocalizedPath(file), root, await file.vault.read(file));
-			this.fileCache.createCachedFile(file.path, shadow);
+			if (isAttachment(file.path)) {
+				// attachments have no shadow, publishing them is all the registering they need
+				await this.syncAttachment(file);
+				return;
+			}
+			let content = await this.readContent(file);
+			let registered = await this.syncUtilFor(file).registerFile(this.getLocalizedPath(file), root, content);
+			if (content == "" && registered.content != "") {
+				// syncRoot creates files the broker has empty, they get filled in here. Left empty, the next sync
+				// would diff "" against the broker's content and send a patch deleting the whole note.
+				await this.writeContent(file, registered.content);
+			}
+			this.fileCache.createCachedFile(file.path, registered.content);
+			this.history.record(file.path, registered.content, null);
+			this.fileCache.setFileId(file.path, registered.fileId);
+			this.statusTracker.clearError(file.path);
 		} catch (e) {
 			if (e instanceof FileDeletedError) {
 				// file was deleted, remove from cache
 				// ToDo: if file was recently created, ask if user wants to restore instead
-				delete this.fileCache.fileCache[file.path];
+				this.fileCache.removeCachedFile(file.path);
 				console.log("File deleted", file.path);
 				file.vault.delete(file);
+			} else if (e instanceof BrokerUnreachableError) {
+				// registered once we're back online
+				this.setOffline(this.getFolderForPath(file.path)!);
+			} else if (e instanceof AccessDeniedError) {
+				// viewers can't add files, it stays local
+				console.log("Not allowed to register", file.path, e.message);
 			} else {
 				console.log("Error registering file", file.path, e);
+				this.statusTracker.reportError(file.path, String(e));
 			}
 		}
 	}
 
-	async deleteFile(file: TFile, root: string) {
-		await this.syncUtil.deleteFile(this.getLocalizedPath(file), root);
+	async deleteFile(file: TFile) {
+		let folder = this.getFolderForPath(file.path)!;
+		// gone here either way, a shadow left behind would only get the file recreated empty
+		this.fileCache.removeCachedFile(file.path);
+		await this.deleteRemote(folder, this.getLocalizedPath(file));
 	}
 
-	async deleteFileByPath(path: string, root: string) {
-		await this.syncUtil.deleteFile(this.getLocalizedPathFromRootPath(root, path), root);
+	// Deletes a file or folder on the broker, or remembers to once the broker is reachable again
+	async deleteRemote(folder: string, path: string) {
+		let broker = this.getBroker(folder);
+		let root = this.settings.sharedFolders[folder].root;
+		try {
+			if (broker.offline) {
+				throw new BrokerUnreachableError("Broker is offline");
+			}
+			await broker.syncUtil.deleteFile(path, root);
+		} catch (e) {
+			if (e instanceof BrokerUnreachableError) {
+				this.setOffline(folder);
+				this.fileCache.addPendingDelete({ root: root, path: path });
+				return;
+			}
+			console.log("Failed to delete", path, e);
+			this.statusTracker.reportError(this.getRootPath(folder) + "/" + path, "Couldn't delete it on the broker: " + e.message);
+		}
+	}
+
+	// one request for the whole folder, the events for its files then find nothing tracked
+	async deleteFolder(folder: TFolder) {
+		let sharedFolder = this.getFolderForPath(folder.path);
+		// files of mounts nested in it go through their own delete events
+		let tracked = this.fileCache.listTrackedUnder(folder.path).filter((path) => this.getFolderForPath(path) == sharedFolder);
+		if (sharedFolder == null || tracked.length == 0 || folder.path == this.getRootPath(sharedFolder)) {
+			return;
+		}
+		for (let path of tracked) {
+			this.fileCache.removeCachedFile(path);
+		}
+		await this.deleteRemote(sharedFolder, this.getLocalizedPathFromRootPath(sharedFolder, folder.path));
 	}
 }
 
@@ -367,26 +2209,84 @@ class SettingTab extends PluginSettingTab {
 	plugin: MyPlugin;
 	registerFolderField: TextComponent;
 	registerRootField: TextComponent;
+	joinPathField: TextComponent;
+	// how the next folder we share gets encrypted
+	shareEncryption: EncryptionMode = "none";
+	sharePassphrase = "";
 
 	constructor(app: App, plugin: MyPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
 
+	// Endpoints apply once the field loses focus, half typed ones never get connected to.
+	// The button checks whether the broker answers.
+	addEndpointField(setting: Setting, value: string, placeholder: string, onCommit: (value: string) => Promise<void>) {
+		let endpoint = value;
+		return setting
+			.addText(text => {
+				text.setPlaceholder(placeholder)
+					.setValue(value)
+					.onChange((changed) => endpoint = changed.trim());
+				text.inputEl.addEventListener('change', () => onCommit(endpoint));
+			})
+			.addButton(btn => btn
+				.setButtonText('Check')
+				.setTooltip('Check that the broker can be reached')
+				.onClick(async () => {
+					let target = endpoint || placeholder;
+					let check = await checkConnection(target);
+					new Notice((check.ok ? target + ": " : "Can't reach " + target + ": ") + check.message);
+				}));
+	}
+
 	display(): void {
 		const {containerEl} = this;
 
 		containerEl.empty();
 
-		new Setting(containerEl)
+		this.addEndpointField(new Setting(containerEl)
 			.setName('Broker Endpoint')
-			.setDesc('The endpoint for your broker service. Restart plugin after changing!')
+			.setDesc('The endpoint for your broker service. Shared folders use it unless they name their own.'),
+			this.plugin.settings.brokerEndpoint, 'Enter your broker endpoint', async (value) => {
+				if (value) {
+					this.plugin.settings.brokerEndpoint = value;
+					await this.plugin.saveSettings();
+					await this.plugin.adoptNewBrokers();
+				}
+			});
+
+		new Setting(containerEl)
+			.setName('Display name')
+			.setDesc('Shown to collaborators next to your cursor')
 			.addText(text => text
-				.setPlaceholder('Enter your broker endpoint')
-				.setValue(this.plugin.settings.brokerEndpoint)
+				.setPlaceholder('Anonymous')
+				.setValue(this.plugin.settings.displayName)
+				.onChange((value) => {
+					// presence reads it each time, nothing else to update
+					this.plugin.settings.displayName = value;
+					this.plugin.saveSettingsLater();
+				}));
+
+		new Setting(containerEl)
+			.setName('Real-time updates')
+			.setDesc('Let the broker push changes as they happen. Falls back to polling when the broker does not support it.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.realtimeUpdates)
 				.onChange(async (value) => {
-					this.plugin.settings.brokerEndpoint = value;
+					this.plugin.settings.realtimeUpdates = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Author gutter')
+			.setDesc('Color lines others changed in the last few minutes by who changed them, in the note you have open.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.authorGutter)
+				.onChange(async (value) => {
+					this.plugin.settings.authorGutter = value;
 					await this.plugin.saveSettings();
+					this.plugin.updateAuthorGutter();
 				}));
 		
 		containerEl.createEl('hr');
@@ -401,9 +2301,44 @@ class SettingTab extends PluginSettingTab {
 		console.log(this.plugin.settings.sharedFolders);
 		for (const sharedFolder of Object.keys(this.plugin.settings.sharedFolders)) {
 			console.log("Adding setting for", sharedFolder);
-			new Setting(containerEl)
+			let entry = this.plugin.settings.sharedFolders[sharedFolder];
+			let excludesSetting: Setting;
+			let brokerSetting: Setting;
+			let mountSetting: Setting;
+			let setting = new Setting(containerEl)
 			  .setName(sharedFolder)
-			  .addButton(btn => {
+			  .setDesc(entry.role == "viewer" ? "Viewer, read-only" : entry.role == "owner" ? "Owner" : "Editor");
+			if (entry.role == "owner") {
+				for (let role of ["editor", "viewer"] as Role[]) {
+					setting.addButton(btn => btn
+						.setButtonText('Invite ' + role)
+						.setTooltip('Create an invite and copy its code')
+						.onClick(async () => {
+							try {
+								let invite = await this.plugin.getBroker(sharedFolder).syncUtil.createInvite(entry.root, role);
+								await navigator.clipboard.writeText(formatShareCode(entry.root, invite.token, entry.key));
+								new Notice("Share code for a new " + role + " copied");
+							} catch (e) {
+								new Notice("Failed to create invite");
+								console.log("Failed to create invite", e);
+							}
+						}));
+				}
+				setting.addButton(btn => btn
+					.setButtonText('Invites')
+					.setTooltip('Show and revoke invites')
+					.onClick(async () => {
+						try {
+							let syncUtil = this.plugin.getBroker(sharedFolder).syncUtil;
+							let invites = await syncUtil.listInvites(entry.root);
+							new InviteListModal(this.app, entry.root, entry.key, invites, (token) => syncUtil.revokeInvite(entry.root, token)).open();
+						} catch (e) {
+							new Notice("Failed to list invites");
+							console.log("Failed to list invites", e);
+						}
+					}));
+			}
+			setting.addButton(btn => {
 				btn.setIcon('cross');
 				btn.setTooltip('Remove this shared folder');
 				btn.onClick(async () => {
@@ -415,73 +2350,97 @@ class SettingTab extends PluginSettingTab {
 						if (parentElement?.parentElement) {
 							parentElement.parentElement.remove();
 						}
-						delete this.plugin.settings.sharedFolders[sharedFolder];
-						await this.plugin.saveSettings();
+						mountSetting.settingEl.remove();
+						excludesSetting.settingEl.remove();
+						brokerSetting.settingEl.remove();
+						await this.plugin.leaveFolder(sharedFolder);
 					}
 				});
 			  });
+			let mountPath = entry.path;
+			mountSetting = new Setting(containerEl)
+				.setDesc('Mounted at')
+				.addText(text => text
+					.setValue(entry.path)
+					.onChange((value) => mountPath = value))
+				.addButton(btn => btn
+					.setButtonText('Move')
+					.setTooltip('Mount this shared folder somewhere else in the vault')
+					.onClick(async () => {
+						if (normalizePath(mountPath) != entry.path) {
+							await this.plugin.moveMount(sharedFolder, mountPath);
+							this.display();
+						}
+					}));
+			excludesSetting = new Setting(containerEl)
+				.setDesc('Excluded on this device, one pattern per line like in .collabignore, e.g. "exports/" or "*.pdf"')
+				.addTextArea(text => text
+					.setPlaceholder('exports/\n*.pdf')
+					.setValue(entry.excludes)
+					.onChange((value) => {
+						entry.excludes = value;
+						this.plugin.saveSettingsLater();
+						this.plugin.loadIgnoreRulesLater();
+					}));
+			brokerSetting = this.addEndpointField(new Setting(containerEl)
+				.setDesc('Broker, when it is not the default one'),
+				entry.broker || '', this.plugin.settings.brokerEndpoint, async (value) => {
+					entry.broker = value && value != this.plugin.settings.brokerEndpoint ? value : null;
+					await this.plugin.saveSettings();
+					await this.plugin.adoptNewBrokers();
+				});
 		}
 
 		new Setting(containerEl)
 			.setName('Share a folder')
-			.setDesc('Register a folder with your server to start sharing')
+			.setDesc('Register a folder with your server to start sharing. An existing folder is shared in place with everything in it, '
+				+ 'leave it empty for a new folder under Shared/. Encrypted folders are sealed end-to-end, '
+				+ 'their key comes from the passphrase or is made up when there is none, and goes along in share codes.')
+			.addText(text => {
+				text.setPlaceholder('Folder (optional)');
+				this.registerFolderField = text;
+			})
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Not encrypted')
+				.addOption('content', 'Encrypt content')
+				.addOption('paths', 'Encrypt content and paths')
+				.setValue(this.shareEncryption)
+				.onChange((value) => this.shareEncryption = value as EncryptionMode))
+			.addText(text => {
+				text.setPlaceholder('Passphrase (optional)')
+					.onChange((value) => this.sharePassphrase = value);
+				text.inputEl.type = 'password';
+			})
 			.addButton(button => button
 				.setButtonText('Register')
 				.onClick(async () => {
-					try {
-						let root = await this.plugin.syncUtil.registerRoot();
-						console.log("Registered folder", root);
-						this.plugin.settings.sharedFolders[root] = root;
-						this.plugin.saveSettings();
-						try {
-							await this.app.vault.createFolder(this.plugin.getRootPath(root));
-						} catch (e) {
-							console.log("Failed to create the folder, will leave it for now", e);
-						}
+					let path = this.registerFolderField.getValue().trim() ? this.registerFolderField.getValue() : null;
+					if (await this.plugin.shareFolder(path, this.shareEncryption, this.sharePassphrase)) {
+						this.registerFolderField.setValue("");
 						// reload the tab
 						this.display();
-					} catch (e) {
-						new Notice("Failed to register folder");
-						console.log("Failed to register folder", e);
 					}
 				}));
 		new Setting(containerEl)
 			.setName('Join a folder')
-			.setDesc('Join a shared folder')
+			.setDesc('Join a shared folder. It gets mounted at the given folder, which must not exist yet, or under Shared/.')
 			.addText(text => {
 				text.setPlaceholder('Enter a folder code')
 					.setValue("")
 				this.registerRootField = text;
 			})
+			.addText(text => {
+				text.setPlaceholder('Folder (optional)');
+				this.joinPathField = text;
+			})
 			.addButton(button => button
 				.setButtonText('Register')
 				.onClick(async () => {
-					let root = this.registerRootField.getValue();
-					try {
-						try {
-							let tree = await this.plugin.syncUtil.getRoot(root);
-							// just use the root as the folder
-							await this.app.vault.createFolder(this.plugin.getRootPath(root));
-						} catch (e) {
-							throw e;
-						}
-						this.plugin.settings.sharedFolders[root] = root;
-						console.log("Registered folder", root);
-						this.plugin.saveSettings();
-						// reload the tab
-						this.display();
-					} catch (e) {
-						console.log("Failed to register folder", e);
-						if (e.message.contains("Folder already exists")) {
-							new Notice("Can't register a folder that already exists!");
-							console.log("Folder already exists", e);
-						} else if (e.message.contains("Root does not exist")) {
-							console.log("Root does not exist", e);
-						} else {
-							console.log("Uncaught error", e);
-						}
-					}
+					let code = this.registerRootField.getValue();
+					let path = this.joinPathField.getValue().trim() ? this.joinPathField.getValue() : null;
 					this.registerRootField.setValue("");
+					this.joinPathField.setValue("");
+					await this.plugin.joinShare(code, path);
 				}));
 	}
 }
@@ -0,0 +1,670 @@
+import { DiffMatchPatch } from "diff-match-patch-typescript";
+import { base64ToArrayBuffer } from "obsidian"
+import { md5 } from "checksum"
+import { sha256Hex } from "attachments"
+import {
+    AttachmentRequest, AttachmentResponse, BrokerVersion, HistoryRequest, HistoryResponse, BlobRequest, BlobResponse, HasBlobResponse, PutAttachmentRequest, UploadBlobRequest,
+    BrokerEvent, BrokerTransport, ContentRequest, ContentResponse, Credentials, PatchAuthor, CreateInviteRequest, Invite, InviteListRequest, InviteResponse, RevokeInviteRequest, Role, DeleteFileRequest, DeleteFileResponse, GetRootRequest, GetRootResponse, TreeEntry,
+    MoveRequest, MoveResponse, PatchBatchRequest, PatchBatchResponse, PatchBatchResult, PatchRequest, PatchResponse, SealedPatchRequest, SealedPatchResponse, EncryptionMode, PresenceRequest, PresenceResponse, PresenceState, RegisterFileRequest, RegisterFileResponse, RegisterRootRequest, RegisterRootResponse,
+    SubscribeRequest, Subscription, SubscriptionHandlers
+} from "transport"
+
+interface BrokerFile {
+    id: string,
+    content: string,
+    // blob hash for attachments, null for text files
+    hash: string | null,
+    deleted: boolean,
+    // keyed checksum of content in sealed roots
+    checksum: string,
+    // when and by whom it last changed
+    modified: number,
+    author: string | null,
+    // past contents of text files, oldest first
+    history: BrokerVersion[],
+    // the last content each user acknowledged, keyed by userId
+    shadows: {[userId: string]: string},
+    // versions recorded so far, history only keeps the latest of them
+    revisions: number,
+    // revisions each user's shadow was last brought up to date at, to tell them who changed what since.
+    // Counted rather than timed, changes within the same millisecond would otherwise go unattributed.
+    synced: {[userId: string]: number}
+}
+
+interface BrokerRoot {
+    files: {[path: string]: BrokerFile},
+    // base64 blobs by sha-256, shared by every path pointing at them
+    blobs: {[hash: string]: string},
+    // file ids by the paths they were moved away from, so late patches can be redirected
+    moved: {[path: string]: string},
+    // every token that grants access, the owner's included
+    invites: {[token: string]: Invite},
+    // sealed roots hold content we can't read, keySalt and keyCheck are the owner's and opaque to us
+    encryption: EncryptionMode,
+    keySalt: string,
+    keyCheck: string
+}
+
+interface Subscriber {
+    handlers: SubscriptionHandlers,
+    // dropped when this token is revoked
+    token: string | null
+}
+
+// users that stop publishing presence drop out after this long
+const PRESENCE_TTL_MS = 30000;
+const MAX_HISTORY_PER_FILE = 100;
+
+// In-process stand-in for the python broker, implementing the same differential sync semantics.
+// Several SyncUtils can share one instance to simulate collaborators without a server.
+export class InMemoryBroker implements BrokerTransport {
+    roots: {[root: string]: BrokerRoot} = {};
+    subscribers: {[root: string]: Subscriber[]} = {};
+    presence: {[root: string]: {[userId: string]: PresenceState}} = {};
+    diffy = new DiffMatchPatch();
+
+    private newId() {
+        return crypto.randomUUID();
+    }
+
+    // requests and responses go through JSON so callers can't share objects with the broker
+    private wire<T>(value: T): T {
+        return JSON.parse(JSON.stringify(value));
+    }
+
+    private newFile(content: string, hash: string | null, checksum: string | null, author: string | null): BrokerFile {
+        let file = { id: this.newId(), content: content, hash: hash, checksum: checksum || "", deleted: false, modified: Date.now(), author: author, history: [], shadows: {}, revisions: 0, synced: {} };
+        if (hash == null) {
+            this.recordVersion(file);
+        }
+        return file;
+    }
+
+    private touch(file: BrokerFile, author: string | null) {
+        file.modified = Date.now();
+        file.author = author;
+    }
+
+    private setShadow(file: BrokerFile, userId: string) {
+        file.shadows[userId] = file.content;
+        file.synced[userId] = file.revisions;
+    }
+
+    // everyone else who changed the file since userId last synced it, each with their latest change
+    private authorsSince(file: BrokerFile, userId: string): PatchAuthor[] {
+        let unseen = file.revisions - (file.synced[userId] ?? 0);
+        let latest = new Map<string | null, number>();
+        for (let version of unseen > 0 ? file.history.slice(-unseen) : []) {
+            if (version.author != userId) {
+                latest.set(version.author, version.timestamp);
+            }
+        }
+        return [...latest.entries()]
+            .map(([author, timestamp]) => ({ userId: author, timestamp: timestamp }))
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private recordVersion(file: BrokerFile) {
+        file.history.push({ content: file.content, timestamp: file.modified, author: file.author });
+        file.revisions++;
+        file.history = file.history.slice(-MAX_HISTORY_PER_FILE);
+    }
+
+    // delivered asynchronously, like a socket would
+    private emit(event: BrokerEvent) {
+        for (let subscriber of this.subscribers[event.root] || []) {
+            let copy = this.wire(event);
+            window.setTimeout(() => subscriber.handlers.onEvent(copy), 0);
+        }
+    }
+
+    private roleFor(root: BrokerRoot, request: Credentials): Role | null {
+        let invite = request.secretKey ? root.invites[request.secretKey] : null;
+        return invite ? invite.role : null;
+    }
+
+    // why the request's token isn't enough, null when it is
+    private denied(root: BrokerRoot, request: Credentials, write: boolean) {
+        let role = this.roleFor(root, request);
+        if (!role) {
+            return "Access denied";
+        }
+        if (write && role == "viewer") {
+            return "Read only";
+        }
+        return null;
+    }
+
+    async postPatch(request: PatchRequest): Promise<PatchResponse> {
+        request = this.wire(request);
+        let fail = (status: number, content: string) => this.wire({ status: status, patch: "", checksum: "", content: content });
+        let root = this.roots[request.root];
+        if (!root) {
+            return fail(404, "Root does not exist");
+        }
+        if (root.encryption != "none") {
+            return fail(400, "Root is sealed");
+        }
+        // viewers still post empty patches to pull changes
+        let denied = this.denied(root, request, request.patch.length > 0);
+        if (denied) {
+            return fail(403, denied);
+        }
+        let file = root.files[request.path];
+        if (!file && request.path in root.moved) {
+            let path = this.findPath(root, root.moved[request.path]);
+            if (path) {
+                return fail(301, path);
+            }
+        }
+        if (!file) {
+            return fail(404, "File does not exist");
+        }
+        if (file.deleted) {
+            return fail(409, "File is deleted");
+        }
+        if (!request.userId || !(request.userId in file.shadows)) {
+            return fail(404, "File not registered for user");
+        }
+        let shadow = file.shadows[request.userId];
+        if (md5(shadow) != request.checksum) {
+            // the client's shadow drifted, reset it to our content and let it start over
+            this.setShadow(file, request.userId);
+            return fail(409, file.content);
+        }
+        // both have to take every hunk. Dropping some would answer 200 for an edit that never landed, instead
+        // the client gets our content and merges its edit onto it, same as when its shadow drifted.
+        let patches = this.diffy.patch_fromText(request.patch);
+        let [patchedShadow, shadowApplied] = this.diffy.patch_apply(patches, shadow);
+        let [patchedContent, contentApplied] = this.diffy.patch_apply(patches, file.content);
+        if (!shadowApplied.every(Boolean) || !contentApplied.every(Boolean)) {
+            this.setShadow(file, request.userId);
+            return fail(409, file.content);
+        }
+        shadow = patchedShadow;
+        file.content = patchedContent;
+        // send back whatever other users changed since this user's shadow
+        let outgoing = this.diffy.patch_toText(this.diffy.patch_make(shadow, file.content, undefined));
+        let authors = outgoing.length > 0 ? this.authorsSince(file, request.userId) : [];
+        this.setShadow(file, request.userId);
+        if (request.patch.length > 0) {
+            this.touch(file, request.userId);
+            this.recordVersion(file);
+            this.emit({ type: "file-changed", root: request.root, path: request.path, userId: request.userId });
+        }
+        return this.wire({ status: 200, patch: outgoing, checksum: request.checksum, content: "", authors: authors });
+    }
+
+    async getContent(request: ContentRequest): Promise<ContentResponse> {
+        request = this.wire(request);
+        let fail = (status: number, content: string) => this.wire({ status: status, content: content });
+        let root = this.roots[request.root];
+        if (!root) {
+            return fail(404, "Root does not exist");
+        }
+        if (root.encryption != "none") {
+            return fail(400, "Root is sealed");
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return fail(403, denied);
+        }
+        let file = root.files[request.path];
+        if (!file && request.path in root.moved) {
+            let path = this.findPath(root, root.moved[request.path]);
+            if (path) {
+                return fail(301, path);
+            }
+        }
+        if (!file) {
+            return fail(404, "File does not exist");
+        }
+        if (file.deleted) {
+            return fail(409, "File is deleted");
+        }
+        return this.wire({ status: 200, content: file.content });
+    }
+
+    // each entry like postPatch, except probes of files that haven't changed since the client's shadow
+    async postPatchBatch(request: PatchBatchRequest): Promise<PatchBatchResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, results: [], content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return this.wire({ status: 403, results: [], content: denied });
+        }
+        let results: PatchBatchResult[] = [];
+        for (let entry of request.entries) {
+            let file = root.files[entry.path];
+            let shadow = file && request.userId ? file.shadows[request.userId] : undefined;
+            if (entry.patch.length == 0 && file && !file.deleted && shadow === file.content && md5(shadow) == entry.checksum) {
+                results.push({ path: entry.path, status: 304, patch: "", checksum: entry.checksum, content: "" });
+                continue;
+            }
+            let response = await this.postPatch({
+                root: request.root,
+                path: entry.path,
+                checksum: entry.checksum,
+                patch: entry.patch,
+                userId: request.userId,
+                secretKey: request.secretKey
+            });
+            results.push({ path: entry.path, ...response });
+        }
+        return this.wire({ status: 200, results: results, content: "" });
+    }
+
+    // compare and swap of whole sealed contents
+    async postSealedPatch(request: SealedPatchRequest): Promise<SealedPatchResponse> {
+        request = this.wire(request);
+        let fail = (status: number, content: string) => this.wire({ status: status, checksum: "", content: content });
+        let root = this.roots[request.root];
+        if (!root) {
+            return fail(404, "Root does not exist");
+        }
+        if (root.encryption == "none") {
+            return fail(400, "Root is not sealed");
+        }
+        let denied = this.denied(root, request, request.content != null);
+        if (denied) {
+            return fail(403, denied);
+        }
+        let file = root.files[request.path];
+        if (!file && request.path in root.moved) {
+            let path = this.findPath(root, root.moved[request.path]);
+            if (path) {
+                return fail(301, path);
+            }
+        }
+        if (!file) {
+            return fail(404, "File does not exist");
+        }
+        if (file.deleted) {
+            return fail(409, "File is deleted");
+        }
+        if (file.checksum != request.checksum) {
+            // someone else changed it since, the client merges and tries again
+            return this.wire({ status: 409, checksum: file.checksum, content: file.content });
+        }
+        if (request.content != null && request.newChecksum != null && request.newChecksum != file.checksum) {
+            file.content = request.content;
+            file.checksum = request.newChecksum;
+            this.touch(file, request.userId);
+            this.recordVersion(file);
+            this.emit({ type: "file-changed", root: request.root, path: request.path, userId: request.userId });
+        }
+        return this.wire({ status: 200, checksum: file.checksum, content: "" });
+    }
+
+    async registerFile(request: RegisterFileRequest): Promise<RegisterFileResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, content: "Root does not exist", userId: request.userId, fileId: null });
+        }
+        // viewers can register files that exist, to get a shadow, but not create them
+        let denied = this.denied(root, request, !(request.path in root.files));
+        if (denied) {
+            return this.wire({ status: 403, content: denied, userId: request.userId, fileId: null });
+        }
+        let userId = request.userId || this.newId();
+        let file = root.files[request.path];
+        if (file && file.deleted) {
+            return this.wire({ status: 409, content: "File is deleted", userId: userId, fileId: file.id });
+        }
+        if (!file) {
+            file = this.newFile(request.content, null, request.checksum, userId);
+            root.files[request.path] = file;
+            this.emit({ type: "tree-changed", root: request.root });
+        }
+        // existing files keep their content, the client adopts it as its shadow
+        this.setShadow(file, userId);
+        return this.wire({ status: 200, content: file.content, userId: userId, fileId: file.id });
+    }
+
+    async deleteFile(request: DeleteFileRequest): Promise<DeleteFileResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, true);
+        if (denied) {
+            return this.wire({ status: 403, content: denied });
+        }
+        // a single file, or everything under a folder
+        let paths = request.path in root.files ? [request.path] : Object.keys(root.files).filter((path) => path.startsWith(request.path + "/") && !root.files[path].deleted);
+        if (paths.length == 0) {
+            return this.wire({ status: 404, content: "File does not exist" });
+        }
+        for (let path of paths) {
+            // keep a tombstone so other clients delete their copy instead of re-registering it
+            let file = root.files[path];
+            file.deleted = true;
+            file.content = "";
+            file.hash = null;
+            file.shadows = {};
+            file.synced = {};
+            this.touch(file, request.userId);
+        }
+        this.emit({ type: "tree-changed", root: request.root });
+        return this.wire({ status: 200, content: "" });
+    }
+
+    private findPath(root: BrokerRoot, fileId: string) {
+        return Object.keys(root.files).find((path) => root.files[path].id === fileId && !root.files[path].deleted) || null;
+    }
+
+    async moveFile(request: MoveRequest): Promise<MoveResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, path: "", content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, true);
+        if (denied) {
+            return this.wire({ status: 403, path: "", content: denied });
+        }
+        let live = (path: string) => path in root.files && !root.files[path].deleted;
+        // a single file, or everything under a folder
+        let sources = live(request.from) ? [request.from] : Object.keys(root.files).filter((path) => live(path) && path.startsWith(request.from + "/"));
+        if (sources.length == 0) {
+            let current = request.fileId ? this.findPath(root, request.fileId) : null;
+            if (current) {
+                // someone else moved it first, tell the caller where it went
+                return this.wire({ status: 409, path: current, content: "File was moved" });
+            }
+            return this.wire({ status: 404, path: "", content: "File does not exist" });
+        }
+        let targets = sources.map((path) => request.to + path.slice(request.from.length));
+        if (targets.some((path) => live(path))) {
+            return this.wire({ status: 409, path: "", content: "Destination exists" });
+        }
+        for (let i = 0; i < sources.length; i++) {
+            let file = root.files[sources[i]];
+            delete root.files[sources[i]];
+            root.files[targets[i]] = file;
+            root.moved[sources[i]] = file.id;
+            this.touch(file, request.userId);
+        }
+        this.emit({ type: "tree-changed", root: request.root });
+        return this.wire({ status: 200, path: request.to, content: "" });
+    }
+
+    async getRoot(request: GetRootRequest): Promise<GetRootResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, tree: [], role: "viewer", encryption: "none", keySalt: "", keyCheck: "", content: "Root does not exist" });
+        }
+        let role = this.roleFor(root, request);
+        if (!role) {
+            return this.wire({ status: 403, tree: [], role: "viewer", encryption: "none", keySalt: "", keyCheck: "", content: "Access denied" });
+        }
+        let tree: TreeEntry[] = [];
+        let folders: {[path: string]: TreeEntry} = {};
+        for (let path of Object.keys(root.files)) {
+            let file = root.files[path];
+            tree.push({ path: path, kind: "file", fileId: file.id, deleted: file.deleted, modified: file.modified, author: file.author });
+            // every folder along the path, live while anything under it is
+            let parts = path.split("/");
+            for (let i = 1; i < parts.length; i++) {
+                let folderPath = parts.slice(0, i).join("/");
+                let folder = folders[folderPath];
+                if (!folder) {
+                    folder = { path: folderPath, kind: "folder", fileId: null, deleted: true, modified: 0, author: null };
+                    folders[folderPath] = folder;
+                }
+                folder.deleted = folder.deleted && file.deleted;
+                if (file.modified > folder.modified) {
+                    folder.modified = file.modified;
+                    folder.author = file.author;
+                }
+            }
+        }
+        tree.push(...Object.values(folders));
+        return this.wire({ status: 200, tree: tree, role: role, encryption: root.encryption, keySalt: root.keySalt, keyCheck: root.keyCheck, content: "" });
+    }
+
+    async getAttachment(request: AttachmentRequest): Promise<AttachmentResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, hash: "", fileId: null, content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return this.wire({ status: 403, hash: "", fileId: null, content: denied });
+        }
+        let file = root.files[request.path];
+        if (file && file.deleted) {
+            return this.wire({ status: 409, hash: "", fileId: file.id, content: "File is deleted" });
+        }
+        if (!file || file.hash == null) {
+            return this.wire({ status: 404, hash: "", fileId: null, content: "Attachment does not exist" });
+        }
+        return this.wire({ status: 200, hash: file.hash, fileId: file.id, content: "" });
+    }
+
+    async putAttachment(request: PutAttachmentRequest): Promise<AttachmentResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, hash: "", fileId: null, content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, true);
+        if (denied) {
+            return this.wire({ status: 403, hash: "", fileId: null, content: denied });
+        }
+        if (!(request.hash in root.blobs)) {
+            return this.wire({ status: 404, hash: "", fileId: null, content: "Blob does not exist" });
+        }
+        let file = root.files[request.path];
+        if (file && file.deleted) {
+            return this.wire({ status: 409, hash: "", fileId: file.id, content: "File is deleted" });
+        }
+        if (file && file.hash != request.previousHash) {
+            // someone else replaced it since the caller last looked
+            return this.wire({ status: 409, hash: file.hash || "", fileId: file.id, content: "Attachment changed" });
+        }
+        if (!file) {
+            file = this.newFile("", request.hash, null, request.userId);
+            root.files[request.path] = file;
+            this.emit({ type: "tree-changed", root: request.root });
+        } else {
+            file.hash = request.hash;
+            this.touch(file, request.userId);
+        }
+        this.emit({ type: "file-changed", root: request.root, path: request.path, userId: request.userId });
+        return this.wire({ status: 200, hash: request.hash, fileId: file.id, content: "" });
+    }
+
+    async hasBlob(request: BlobRequest): Promise<HasBlobResponse> {
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, exists: false, content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return this.wire({ status: 403, exists: false, content: denied });
+        }
+        return this.wire({ status: 200, exists: request.hash in root.blobs, content: "" });
+    }
+
+    async uploadBlob(request: UploadBlobRequest): Promise<BlobResponse> {
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, data: "", content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, true);
+        if (denied) {
+            return this.wire({ status: 403, data: "", content: denied });
+        }
+        if (await sha256Hex(base64ToArrayBuffer(request.data)) != request.hash) {
+            return this.wire({ status: 400, data: "", content: "Hash does not match data" });
+        }
+        root.blobs[request.hash] = request.data;
+        return this.wire({ status: 200, data: "", content: "" });
+    }
+
+    async downloadBlob(request: BlobRequest): Promise<BlobResponse> {
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, data: "", content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return this.wire({ status: 403, data: "", content: denied });
+        }
+        if (!(request.hash in root.blobs)) {
+            return this.wire({ status: 404, data: "", content: "Blob does not exist" });
+        }
+        return this.wire({ status: 200, data: root.blobs[request.hash], content: "" });
+    }
+
+    async postPresence(request: PresenceRequest): Promise<PresenceResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, peers: [], content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return this.wire({ status: 403, peers: [], content: denied });
+        }
+        if (!request.userId) {
+            return this.wire({ status: 403, peers: [], content: "No user id" });
+        }
+        let now = Date.now();
+        let peers = this.presence[request.root] || {};
+        for (let userId of Object.keys(peers)) {
+            if (now - peers[userId].updated > PRESENCE_TTL_MS) {
+                delete peers[userId];
+            }
+        }
+        let previous = peers[request.userId];
+        peers[request.userId] = {
+            userId: request.userId,
+            displayName: request.displayName,
+            root: request.root,
+            path: request.path,
+            cursor: request.cursor,
+            updated: now
+        };
+        this.presence[request.root] = peers;
+        let changed = !previous || previous.path != request.path || JSON.stringify(previous.cursor) != JSON.stringify(request.cursor) || previous.displayName != request.displayName;
+        if (changed) {
+            this.emit({ type: "presence", root: request.root, peers: Object.values(peers) });
+        }
+        return this.wire({ status: 200, peers: Object.values(peers), content: "" });
+    }
+
+    async getHistory(request: HistoryRequest): Promise<HistoryResponse> {
+        request = this.wire(request);
+        let root = this.roots[request.root];
+        if (!root) {
+            return this.wire({ status: 404, versions: [], content: "Root does not exist" });
+        }
+        let denied = this.denied(root, request, false);
+        if (denied) {
+            return this.wire({ status: 403, versions: [], content: denied });
+        }
+        let file = root.files[request.path];
+        if (!file) {
+            return this.wire({ status: 404, versions: [], content: "File does not exist" });
+        }
+        return this.wire({ status: 200, versions: file.history, content: "" });
+    }
+
+    subscribe(request: SubscribeRequest, handlers: SubscriptionHandlers): Subscription {
+        let root = request.root;
+        let closed = false;
+        if (!(root in this.roots) || this.denied(this.roots[root], request, false)) {
+            window.setTimeout(() => handlers.onClose(), 0);
+            return { close: () => {} };
+        }
+        let subscriber = { handlers: handlers, token: request.secretKey };
+        this.subscribers[root] = [...(this.subscribers[root] || []), subscriber];
+        window.setTimeout(() => handlers.onOpen(), 0);
+        return {
+            close: () => {
+                if (closed) {
+                    return;
+                }
+                closed = true;
+                this.subscribers[root] = this.subscribers[root].filter((other) => other !== subscriber);
+                handlers.onClose();
+            }
+        };
+    }
+
+    async registerRoot(request: RegisterRootRequest): Promise<RegisterRootResponse> {
+        let root = this.newId();
+        let token = this.newId();
+        request = this.wire(request);
+        this.roots[root] = { files: {}, blobs: {}, moved: {}, invites: {}, encryption: request.encryption, keySalt: request.keySalt, keyCheck: request.keyCheck };
+        this.roots[root].invites[token] = { token: token, role: "owner", created: Date.now() };
+        return this.wire({ status: 200, root: root, token: token, content: "" });
+    }
+
+    // owners only, and the owner's own token never shows up in the list
+    private ownerRoot(request: Credentials & { root: string }) {
+        let root = this.roots[request.root];
+        if (!root) {
+            return { root: null, fail: this.wire({ status: 404, invites: [], content: "Root does not exist" }) };
+        }
+        if (this.roleFor(root, request) != "owner") {
+            return { root: null, fail: this.wire({ status: 403, invites: [], content: "Only owners manage invites" }) };
+        }
+        return { root: root, fail: null };
+    }
+
+    private invitesOf(root: BrokerRoot) {
+        return Object.values(root.invites).filter((invite) => invite.role != "owner");
+    }
+
+    async createInvite(request: CreateInviteRequest): Promise<InviteResponse> {
+        request = this.wire(request);
+        let { root, fail } = this.ownerRoot(request);
+        if (!root) {
+            return fail!;
+        }
+        let invite = { token: this.newId(), role: request.role, created: Date.now() };
+        root.invites[invite.token] = invite;
+        return this.wire({ status: 200, invites: [invite], content: "" });
+    }
+
+    async listInvites(request: InviteListRequest): Promise<InviteResponse> {
+        request = this.wire(request);
+        let { root, fail } = this.ownerRoot(request);
+        if (!root) {
+            return fail!;
+        }
+        return this.wire({ status: 200, invites: this.invitesOf(root), content: "" });
+    }
+
+    async revokeInvite(request: RevokeInviteRequest): Promise<InviteResponse> {
+        request = this.wire(request);
+        let { root, fail } = this.ownerRoot(request);
+        if (!root) {
+            return fail!;
+        }
+        let invite = root.invites[request.token];
+        if (!invite || invite.role == "owner") {
+            return this.wire({ status: 404, invites: this.invitesOf(root), content: "Invite does not exist" });
+        }
+        delete root.invites[request.token];
+        // whoever joined with it loses their push channel right away
+        let subscribers = this.subscribers[request.root] || [];
+        this.subscribers[request.root] = subscribers.filter((subscriber) => subscriber.token !== request.token);
+        for (let subscriber of subscribers) {
+            if (subscriber.token === request.token) {
+                window.setTimeout(() => subscriber.handlers.onClose(), 0);
+            }
+        }
+        return this.wire({ status: 200, invites: this.invitesOf(root), content: "" });
+    }
+}
@@ -0,0 +1,26 @@
+import { threeWayMerge } from "merge"
+
+describe("threeWayMerge", () => {
+    test("one side changed takes that side", () => {
+        expect(threeWayMerge("a\nb\n", "a\nb\n", "a\nB\n")).toEqual({ clean: true, content: "a\nB\n" });
+        expect(threeWayMerge("a\nb\n", "A\nb\n", "a\nb\n")).toEqual({ clean: true, content: "A\nb\n" });
+    });
+
+    test("edits to different parts are both kept", () => {
+        let merge = threeWayMerge("first\nsecond\nthird\n", "first!\nsecond\nthird\n", "first\nsecond\nthird!\n");
+        expect(merge).toEqual({ clean: true, content: "first!\nsecond\nthird!\n" });
+    });
+
+    test("the same edit on both sides is applied once", () => {
+        let merge = threeWayMerge("hello world", "hello there world!", "hello world!");
+        expect(merge).toEqual({ clean: true, content: "hello there world!" });
+    });
+
+    test("overlapping edits are a conflict", () => {
+        expect(threeWayMerge("the cat sat", "the dog sat", "the bird sat")).toEqual({ clean: false, content: null });
+    });
+
+    test("two inserts at the same spot are a conflict", () => {
+        expect(threeWayMerge("ab", "aXb", "aYb")).toEqual({ clean: false, content: null });
+    });
+});
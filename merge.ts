@@ -0,0 +1,100 @@
+import { DiffMatchPatch, DiffOperation } from "diff-match-patch-typescript";
+
+export interface MergeResult {
+    // true when every change from both sides could be kept
+    clean: boolean,
+    // merged text, null when some hunks overlap
+    content: string | null
+}
+
+// A replacement of base[start, end) with text
+interface Edit {
+    start: number,
+    end: number,
+    text: string
+}
+
+const diffy = new DiffMatchPatch();
+
+// Turn a diff against base into a list of edits in base coordinates
+function getEdits(base: string, other: string): Edit[] {
+    let diffs = diffy.diff_main(base, other);
+    diffy.diff_cleanupSemantic(diffs);
+    let edits: Edit[] = [];
+    let index = 0;
+    let current: Edit | null = null;
+    for (let [op, text] of diffs) {
+        if (op == DiffOperation.DIFF_EQUAL) {
+            if (current) {
+                edits.push(current);
+                current = null;
+            }
+            index += text.length;
+            continue;
+        }
+        if (!current) {
+            current = { start: index, end: index, text: "" };
+        }
+        if (op == DiffOperation.DIFF_DELETE) {
+            index += text.length;
+            current.end = index;
+        } else {
+            current.text += text;
+        }
+    }
+    if (current) {
+        edits.push(current);
+    }
+    return edits;
+}
+
+function sameEdit(a: Edit, b: Edit) {
+    return a.start == b.start && a.end == b.end && a.text == b.text;
+}
+
+function overlaps(a: Edit, b: Edit) {
+    if (a.start == a.end && b.start == b.end) {
+        // two inserts at the same spot, we can't know which goes first
+        return a.start == b.start;
+    }
+    if (a.start == a.end) {
+        return b.start < a.start && a.start < b.end;
+    }
+    if (b.start == b.end) {
+        return a.start < b.start && b.start < a.end;
+    }
+    return a.start < b.end && b.start < a.end;
+}
+
+// Three-way merge of two descendants of base. Non-overlapping hunks from both sides are kept,
+// identical hunks are applied once, anything else is reported as a conflict.
+export function threeWayMerge(base: string, local: string, remote: string): MergeResult {
+    if (local == remote || local == base) {
+        return { clean: true, content: remote };
+    }
+    if (remote == base) {
+        return { clean: true, content: local };
+    }
+    let localEdits = getEdits(base, local);
+    let remoteEdits = getEdits(base, remote);
+    let merged: Edit[] = [...remoteEdits];
+    for (let edit of localEdits) {
+        if (remoteEdits.some((other) => sameEdit(edit, other))) {
+            continue;
+        }
+        if (remoteEdits.some((other) => overlaps(edit, other))) {
+            return { clean: false, content: null };
+        }
+        merged.push(edit);
+    }
+    // inserts go before replacements starting at the same spot
+    merged.sort((a, b) => a.start - b.start || (a.end - a.start) - (b.end - b.start));
+    let content = "";
+    let index = 0;
+    for (let edit of merged) {
+        content += base.slice(index, edit.start) + edit.text;
+        index = edit.end;
+    }
+    content += base.slice(index);
+    return { clean: true, content: content };
+}
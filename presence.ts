@@ -0,0 +1,117 @@
+import { StateEffect, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, WidgetType } from "@codemirror/view";
+import { PresenceState } from "transport"
+
+export interface RemoteCursor {
+    userId: string,
+    displayName: string,
+    anchor: number,
+    head: number
+}
+
+// Stable per-user hue, so everyone sees the same person in the same color
+export function userHue(userId: string) {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+        hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % 360;
+}
+
+export function userColor(userId: string, alpha = 1) {
+    return "hsla(" + userHue(userId) + ", 70%, 50%, " + alpha + ")";
+}
+
+// Latest known peers per shared root
+export class PresenceTracker {
+    peers: {[root: string]: PresenceState[]} = {};
+
+    update(root: string, peers: PresenceState[]) {
+        this.peers[root] = peers;
+    }
+
+    clear(root: string) {
+        delete this.peers[root];
+    }
+
+    // everyone but us with this file open
+    peersForFile(root: string, path: string, selfUserId: string | null) {
+        return (this.peers[root] || []).filter((peer) => peer.userId !== selfUserId && peer.path === path);
+    }
+}
+
+export const setRemoteCursors = StateEffect.define<RemoteCursor[]>();
+
+class CursorWidget extends WidgetType {
+    userId: string;
+    displayName: string;
+
+    constructor(userId: string, displayName: string) {
+        super();
+        this.userId = userId;
+        this.displayName = displayName;
+    }
+
+    eq(other: CursorWidget) {
+        return other.userId == this.userId && other.displayName == this.displayName;
+    }
+
+    toDOM() {
+        let cursor = document.createElement("span");
+        cursor.className = "collab-remote-cursor";
+        cursor.style.borderColor = userColor(this.userId);
+        let label = cursor.createSpan({ cls: "collab-remote-cursor-label", text: this.displayName });
+        label.style.backgroundColor = userColor(this.userId);
+        return cursor;
+    }
+
+    ignoreEvent() {
+        return true;
+    }
+}
+
+function buildDecorations(cursors: RemoteCursor[], length: number): DecorationSet {
+    let ranges = [];
+    for (let cursor of cursors) {
+        let anchor = Math.min(cursor.anchor, length);
+        let head = Math.min(cursor.head, length);
+        if (anchor != head) {
+            ranges.push(Decoration.mark({
+                attributes: { style: "background-color: " + userColor(cursor.userId, 0.2) }
+            }).range(Math.min(anchor, head), Math.max(anchor, head)));
+        }
+        ranges.push(Decoration.widget({
+            widget: new CursorWidget(cursor.userId, cursor.displayName),
+            side: 1
+        }).range(head));
+    }
+    return Decoration.set(ranges, true);
+}
+
+// Remote cursors and selections, replaced wholesale by setRemoteCursors and mapped through local edits in between
+export const remoteCursorField = StateField.define<DecorationSet>({
+    create() {
+        return Decoration.none;
+    },
+    update(decorations, transaction) {
+        decorations = decorations.map(transaction.changes);
+        for (let effect of transaction.effects) {
+            if (effect.is(setRemoteCursors)) {
+                decorations = buildDecorations(effect.value, transaction.state.doc.length);
+            }
+        }
+        return decorations;
+    },
+    provide: (field) => EditorView.decorations.from(field)
+});
+
+// Small colored initials for everyone else looking at the file
+export function renderAvatars(containerEl: HTMLElement, peers: PresenceState[]) {
+    containerEl.empty();
+    for (let peer of peers) {
+        let name = peer.displayName || "Anonymous";
+        let avatar = containerEl.createDiv({ cls: "collab-presence-avatar", text: name.slice(0, 1).toUpperCase() });
+        avatar.style.backgroundColor = userColor(peer.userId);
+        avatar.setAttribute("aria-label", name);
+    }
+}
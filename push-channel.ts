@@ -0,0 +1,111 @@
+import { BrokerEvent, Subscription } from "transport"
+import { SyncUtil } from "sync-util"
+
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+
+interface RootChannel {
+    subscription: Subscription | null,
+    live: boolean,
+    // consecutive failed connection attempts, drives the backoff
+    failures: number,
+    reconnectTimer: number | null
+}
+
+// Keeps one broker subscription open per shared root, reconnecting with backoff when it drops.
+// While a root isn't live the plugin falls back to polling it.
+export class PushChannel {
+    syncUtil: SyncUtil;
+    channels: {[root: string]: RootChannel} = {};
+    onEvent: (event: BrokerEvent) => void;
+    // called whenever a root (re)connects, events may have been missed while it was down
+    onLive: (root: string) => void;
+
+    constructor(syncUtil: SyncUtil, onEvent: (event: BrokerEvent) => void, onLive: (root: string) => void) {
+        this.syncUtil = syncUtil;
+        this.onEvent = onEvent;
+        this.onLive = onLive;
+    }
+
+    isLive(root: string) {
+        return this.channels[root]?.live || false;
+    }
+
+    // open channels for new roots and close channels for roots we no longer share
+    setRoots(roots: string[]) {
+        for (let root of Object.keys(this.channels)) {
+            if (!roots.includes(root)) {
+                this.close(root);
+            }
+        }
+        for (let root of roots) {
+            if (!(root in this.channels)) {
+                this.channels[root] = { subscription: null, live: false, failures: 0, reconnectTimer: null };
+                this.connect(root);
+            }
+        }
+    }
+
+    private connect(root: string) {
+        let channel = this.channels[root];
+        if (!channel || !this.syncUtil.supportsPush()) {
+            return;
+        }
+        channel.reconnectTimer = null;
+        channel.subscription = this.syncUtil.subscribe(root, {
+            onOpen: () => {
+                channel.live = true;
+                channel.failures = 0;
+                console.log("Push channel open for", root);
+                this.onLive(root);
+            },
+            onEvent: (event) => {
+                this.onEvent(event);
+            },
+            onClose: () => {
+                channel.live = false;
+                channel.subscription = null;
+                if (this.channels[root] !== channel) {
+                    // closed on purpose
+                    return;
+                }
+                let delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_MIN_DELAY_MS * Math.pow(2, channel.failures));
+                delay = delay * (1 + Math.random() * 0.1);
+                channel.failures++;
+                console.log("Push channel closed for", root, "retrying in", Math.round(delay), "ms");
+                channel.reconnectTimer = window.setTimeout(() => this.connect(root), delay);
+            }
+        });
+    }
+
+    // skip the backoff of roots waiting to reconnect, e.g. when the app comes back from the background
+    reconnectNow() {
+        for (let root of Object.keys(this.channels)) {
+            let channel = this.channels[root];
+            if (channel.reconnectTimer == null) {
+                continue;
+            }
+            window.clearTimeout(channel.reconnectTimer);
+            channel.failures = 0;
+            this.connect(root);
+        }
+    }
+
+    close(root: string) {
+        let channel = this.channels[root];
+        if (!channel) {
+            return;
+        }
+        delete this.channels[root];
+        if (channel.reconnectTimer != null) {
+            window.clearTimeout(channel.reconnectTimer);
+        }
+        channel.subscription?.close();
+    }
+
+    closeAll() {
+        for (let root of Object.keys(this.channels)) {
+            this.close(root);
+        }
+    }
+}
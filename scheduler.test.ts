@@ -0,0 +1,147 @@
+import { CollabFileCache, PRIORITY_ACTIVE } from "file-cache"
+import { KeyedMutex, Semaphore, SyncScheduler, backoffDelay } from "scheduler"
+
+// resolves once everything already queued has run
+function settle() {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// a task that runs until it's told to finish
+function deferred() {
+    let finish: () => void = () => undefined;
+    let done = new Promise<void>((resolve) => finish = resolve);
+    return { done: done, finish: finish };
+}
+
+describe("backoffDelay", () => {
+    test("doubles with every failure, between half and all of it", () => {
+        for (let failures = 1; failures <= 4; failures++) {
+            let full = 2000 * Math.pow(2, failures - 1);
+            let delay = backoffDelay(failures);
+            expect(delay).toBeGreaterThanOrEqual(full / 2);
+            expect(delay).toBeLessThanOrEqual(full);
+        }
+    });
+
+    test("is capped", () => {
+        expect(backoffDelay(30)).toBeLessThanOrEqual(5 * 60 * 1000);
+    });
+});
+
+describe("Semaphore", () => {
+    test("runs at most limit tasks at once, the rest in order", async () => {
+        let semaphore = new Semaphore(2);
+        let tasks = [deferred(), deferred(), deferred()];
+        let started: number[] = [];
+        let runs = tasks.map((task, i) => semaphore.run(async () => {
+            started.push(i);
+            await task.done;
+            return i;
+        }));
+        await settle();
+        expect(started).toEqual([0, 1]);
+        tasks[1].finish();
+        await settle();
+        expect(started).toEqual([0, 1, 2]);
+        tasks[0].finish();
+        tasks[2].finish();
+        expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+        expect(semaphore.active).toBe(0);
+    });
+
+    test("a failing task gives up its slot", async () => {
+        let semaphore = new Semaphore(1);
+        await expect(semaphore.run(async () => {
+            throw new Error("failed");
+        })).rejects.toThrow("failed");
+        expect(await semaphore.run(async () => "next")).toBe("next");
+    });
+});
+
+describe("KeyedMutex", () => {
+    test("one task per key, other keys don't wait", async () => {
+        let mutex = new KeyedMutex();
+        let first = deferred();
+        let order: string[] = [];
+        let runs = [
+            mutex.run("a", async () => {
+                await first.done;
+                order.push("a1");
+            }),
+            mutex.run("a", async () => {
+                order.push("a2");
+            }),
+            mutex.run("b", async () => {
+                order.push("b");
+            })
+        ];
+        await settle();
+        expect(order).toEqual(["b"]);
+        expect(mutex.isLocked("a")).toBe(true);
+        first.finish();
+        await Promise.all(runs);
+        expect(order).toEqual(["b", "a1", "a2"]);
+        expect(mutex.isLocked("a")).toBe(false);
+    });
+
+    test("tryLock only takes a free key", () => {
+        let mutex = new KeyedMutex();
+        let release = mutex.tryLock("a");
+        expect(release).not.toBeNull();
+        expect(mutex.tryLock("a")).toBeNull();
+        release!();
+        expect(mutex.isLocked("a")).toBe(false);
+    });
+});
+
+describe("SyncScheduler", () => {
+    test("a file that fails backs off instead of being retried right away", async () => {
+        let cache = new CollabFileCache();
+        let calls = 0;
+        let scheduler = new SyncScheduler(cache, async () => {
+            calls++;
+            throw new Error("broker said no");
+        }, 2);
+        await scheduler.syncNow("note.md");
+        expect(calls).toBe(1);
+        expect(scheduler.failures["note.md"].count).toBe(1);
+        // still backing off, so it's queued for later
+        await scheduler.syncNow("note.md");
+        expect(calls).toBe(1);
+        expect(cache.getNextUpdate()).toBeNull();
+        expect(cache.updateQueue.map((item) => item.path)).toEqual(["note.md"]);
+    });
+
+    test("a retry from the user skips the backoff, success forgets the failures", async () => {
+        let cache = new CollabFileCache();
+        let fail = true;
+        let scheduler = new SyncScheduler(cache, async () => {
+            if (fail) {
+                throw new Error("broker said no");
+            }
+        }, 2);
+        await scheduler.syncNow("note.md");
+        fail = false;
+        await scheduler.retryNow("note.md");
+        expect(scheduler.failures["note.md"]).toBeUndefined();
+    });
+
+    test("queued syncs start by priority, up to the concurrency limit", async () => {
+        let cache = new CollabFileCache();
+        let started: string[] = [];
+        let task = deferred();
+        let scheduler = new SyncScheduler(cache, async (path) => {
+            started.push(path);
+            await task.done;
+        }, 2);
+        cache.pushUpdate("background.md", 0);
+        cache.pushUpdate("other.md", 0);
+        cache.pushUpdate("active.md", 0, PRIORITY_ACTIVE);
+        scheduler.pump();
+        await settle();
+        expect(started).toEqual(["active.md", "background.md"]);
+        task.finish();
+        await settle();
+        expect(started).toEqual(["active.md", "background.md", "other.md"]);
+    });
+});
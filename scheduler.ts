@@ -0,0 +1,164 @@
+import { CollabFileCache, PRIORITY_BACKGROUND } from "file-cache"
+
+// first retry after a failure, doubling with every failure after that
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+// Runs at most `limit` tasks at once, the rest wait their turn in order
+export class Semaphore {
+    limit: number;
+    active = 0;
+    waiting: (() => void)[] = [];
+
+    constructor(limit: number) {
+        this.limit = limit;
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            await new Promise<void>((resolve) => this.waiting.push(resolve));
+        } else {
+            this.active++;
+        }
+        try {
+            return await task();
+        } finally {
+            // hand our slot straight to the next in line
+            let next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
+
+// One task per key at a time, later ones queue behind it. Nothing expires like the old timestamp locks did,
+// a slow sync just makes the next one wait.
+export class KeyedMutex {
+    tails: {[key: string]: Promise<void>} = {};
+    holders: {[key: string]: number} = {};
+
+    isLocked(key: string) {
+        return (this.holders[key] || 0) > 0;
+    }
+
+    // queues up behind whoever holds the key, returns the release for when it's our turn
+    private enqueue(key: string) {
+        let previous = this.tails[key] || Promise.resolve();
+        let resolveTail: () => void;
+        this.tails[key] = new Promise<void>((resolve) => resolveTail = resolve);
+        this.holders[key] = (this.holders[key] || 0) + 1;
+        let release = () => {
+            resolveTail();
+            this.holders[key]--;
+            if (this.holders[key] == 0) {
+                delete this.holders[key];
+                delete this.tails[key];
+            }
+        };
+        return { previous: previous, release: release };
+    }
+
+    async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+        let { previous, release } = this.enqueue(key);
+        try {
+            await previous;
+            return await task();
+        } finally {
+            release();
+        }
+    }
+
+    // takes the key only when it's free, returns the release or null
+    tryLock(key: string) {
+        return this.isLocked(key) ? null : this.enqueue(key).release;
+    }
+}
+
+// exponential, with half of it random so files that failed together don't all come back together
+export function backoffDelay(failures: number) {
+    let delay = Math.min(BACKOFF_BASE_MS * Math.pow(2, failures - 1), BACKOFF_MAX_MS);
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+// Decides which file syncs when. The queue itself lives in the file cache so it survives reloads;
+// this picks from it by priority, keeps syncs of one file from overlapping, caps how many run at once
+// and backs off files that keep failing.
+export class SyncScheduler {
+    fileCache: CollabFileCache;
+    sync: (path: string) => Promise<void>;
+    concurrency: number;
+    locks = new KeyedMutex();
+    running = 0;
+    // consecutive failures per path and when the next try is allowed, forgotten on success
+    failures: {[path: string]: {count: number, retryAt: number}} = {};
+
+    constructor(fileCache: CollabFileCache, sync: (path: string) => Promise<void>, concurrency: number) {
+        this.fileCache = fileCache;
+        this.sync = sync;
+        this.concurrency = concurrency;
+    }
+
+    private backoffRemaining(path: string) {
+        let failure = this.failures[path];
+        return failure ? Math.max(0, failure.retryAt - Date.now()) : 0;
+    }
+
+    // queue a sync, never earlier than a backoff allows
+    schedule(path: string, priority = PRIORITY_BACKGROUND, delay = 0) {
+        this.fileCache.pushUpdate(path, Math.max(delay, this.backoffRemaining(path)), priority);
+        this.pump();
+    }
+
+    // sync right away, unless the file is already syncing or backing off, then it's queued instead
+    async syncNow(path: string, priority = PRIORITY_BACKGROUND) {
+        if (this.locks.isLocked(path) || this.backoffRemaining(path) > 0) {
+            this.schedule(path, priority);
+            return;
+        }
+        await this.run(path);
+    }
+
+    // for the user asking to retry, which shouldn't have to wait out a backoff
+    async retryNow(path: string) {
+        delete this.failures[path];
+        await this.syncNow(path);
+    }
+
+    // for syncing several files in one request: takes a file's lock unless it's syncing or backing off
+    tryLock(path: string) {
+        return this.backoffRemaining(path) > 0 ? null : this.locks.tryLock(path);
+    }
+
+    // start whatever is due, as far as the concurrency limit goes
+    pump() {
+        while (this.running < this.concurrency) {
+            let item = this.fileCache.getNextUpdate((path) => this.locks.isLocked(path));
+            if (!item) {
+                return;
+            }
+            this.run(item.path);
+        }
+    }
+
+    private async run(path: string) {
+        this.running++;
+        try {
+            await this.locks.run(path, () => this.sync(path));
+            delete this.failures[path];
+        } catch (e) {
+            let count = (this.failures[path]?.count || 0) + 1;
+            let delay = backoffDelay(count);
+            this.failures[path] = { count: count, retryAt: Date.now() + delay };
+            console.log("Sync of", path, "failed", count, "times in a row, retrying in", Math.round(delay / 1000), "s");
+            // a retry queued while we ran would skip the backoff
+            this.fileCache.dropUpdate(path);
+            this.fileCache.pushUpdate(path, delay, PRIORITY_BACKGROUND);
+        } finally {
+            this.running--;
+            this.pump();
+        }
+    }
+}
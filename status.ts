@@ -0,0 +1,220 @@
+import { ItemView, Setting, WorkspaceLeaf, setIcon } from "obsidian"
+
+export const SYNC_STATUS_VIEW = "soups-collab-status";
+const MAX_RECENT_ERRORS = 50;
+// the panel redraws this often on its own, for relative times and queue changes
+const VIEW_REFRESH_MS = 5000;
+
+export type FileSyncState = "synced" | "pending" | "conflict" | "offline" | "error";
+
+const STATE_LABELS: {[state in FileSyncState]: string} = {
+    synced: "Synced",
+    pending: "Pending",
+    conflict: "Conflict",
+    offline: "Offline",
+    error: "Sync error"
+};
+const STATE_ICONS: {[state in FileSyncState]: string} = {
+    synced: "check-circle",
+    pending: "refresh-cw",
+    conflict: "alert-triangle",
+    offline: "wifi-off",
+    error: "x-circle"
+};
+
+export interface SyncError {
+    path: string,
+    message: string,
+    // ms since epoch
+    time: number
+}
+
+// Sync failures per file, so they reach the user and not only the console
+export class SyncStatusTracker {
+    errors: {[path: string]: SyncError} = {};
+    // newest first, including ones since cleared
+    recent: SyncError[] = [];
+    // files we had to resync from the broker's content, newest first
+    resyncs: SyncError[] = [];
+    listeners: (() => void)[] = [];
+
+    // returns a function that stops listening
+    onChange(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((other) => other !== listener);
+        };
+    }
+
+    private changed() {
+        for (let listener of this.listeners) {
+            listener();
+        }
+    }
+
+    reportError(path: string, message: string) {
+        let error = { path: path, message: message, time: Date.now() };
+        this.errors[path] = error;
+        this.recent = [error, ...this.recent].slice(0, MAX_RECENT_ERRORS);
+        this.changed();
+    }
+
+    reportResync(path: string, message: string) {
+        this.resyncs = [{ path: path, message: message, time: Date.now() }, ...this.resyncs].slice(0, MAX_RECENT_ERRORS);
+        this.changed();
+    }
+
+    clearError(path: string) {
+        if (path in this.errors) {
+            delete this.errors[path];
+            this.changed();
+        }
+    }
+}
+
+export interface StatusFile {
+    path: string,
+    state: FileSyncState,
+    lastSynced: number | null
+}
+
+export interface StatusRoot {
+    // the key in sharedFolders
+    folder: string,
+    files: StatusFile[],
+    queued: {path: string, visibility: number}[],
+    errors: SyncError[],
+    resyncs: SyncError[]
+}
+
+// What the panel needs from the plugin
+export interface SyncStatusSource {
+    statusTracker: SyncStatusTracker;
+    getStatusRoots(): StatusRoot[];
+    retryFile(path: string): Promise<void>;
+    retryFolder(folder: string): Promise<void>;
+}
+
+export function timeAgo(time: number | null) {
+    if (time == null) {
+        return "never";
+    }
+    let seconds = Math.round((Date.now() - time) / 1000);
+    if (seconds < 60) {
+        return seconds + "s ago";
+    } else if (seconds < 3600) {
+        return Math.round(seconds / 60) + "m ago";
+    }
+    return new Date(time).toLocaleString();
+}
+
+export function renderStatusBar(el: HTMLElement, state: FileSyncState | null, lastSynced: number | null) {
+    el.empty();
+    if (state == null) {
+        el.hide();
+        return;
+    }
+    el.show();
+    setIcon(el.createSpan({ cls: "collab-status-icon" }), STATE_ICONS[state]);
+    el.createSpan({ text: " " + STATE_LABELS[state] });
+    el.setAttribute("aria-label", "Last synced " + timeAgo(lastSynced));
+    el.toggleClass("collab-status-problem", state == "conflict" || state == "error");
+}
+
+// Sidebar panel with a section per shared folder: its files, what's queued and what went wrong
+export class SyncStatusView extends ItemView {
+    source: SyncStatusSource;
+    stopListening: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, source: SyncStatusSource) {
+        super(leaf);
+        this.source = source;
+    }
+
+    getViewType() {
+        return SYNC_STATUS_VIEW;
+    }
+
+    getDisplayText() {
+        return "Shared folder sync";
+    }
+
+    getIcon() {
+        return "refresh-cw";
+    }
+
+    async onOpen() {
+        this.stopListening = this.source.statusTracker.onChange(() => this.render());
+        this.registerInterval(window.setInterval(() => this.render(), VIEW_REFRESH_MS));
+        this.render();
+    }
+
+    async onClose() {
+        this.stopListening?.();
+    }
+
+    render() {
+        let container = this.contentEl;
+        container.empty();
+        let roots = this.source.getStatusRoots();
+        if (roots.length == 0) {
+            container.createEl("p", { text: "No shared folders yet." });
+            return;
+        }
+        for (let root of roots) {
+            let section = container.createDiv({ cls: "collab-status-root" });
+            new Setting(section)
+                .setName(root.folder)
+                .setHeading()
+                .addExtraButton(button => button
+                    .setIcon("refresh-cw")
+                    .setTooltip("Sync this folder now")
+                    .onClick(() => this.source.retryFolder(root.folder)));
+
+            if (root.errors.length > 0) {
+                section.createEl("h6", { text: "Recent errors" });
+                for (let error of root.errors) {
+                    new Setting(section)
+                        .setName(error.path)
+                        .setDesc(timeAgo(error.time) + ": " + error.message)
+                        .addExtraButton(button => button
+                            .setIcon("rotate-ccw")
+                            .setTooltip("Retry now")
+                            .onClick(() => this.source.retryFile(error.path)));
+                }
+            }
+
+            if (root.resyncs.length > 0) {
+                section.createEl("h6", { text: "Recent resyncs" });
+                for (let resync of root.resyncs) {
+                    new Setting(section)
+                        .setName(resync.path)
+                        .setDesc(timeAgo(resync.time) + ": " + resync.message);
+                }
+            }
+
+            if (root.queued.length > 0) {
+                section.createEl("h6", { text: "Queued (" + root.queued.length + ")" });
+                let list = section.createEl("ul", { cls: "collab-status-queue" });
+                for (let item of root.queued) {
+                    let due = item.visibility <= Date.now() ? "due" : "in " + Math.ceil((item.visibility - Date.now()) / 1000) + "s";
+                    list.createEl("li", { text: item.path + " (" + due + ")" });
+                }
+            }
+
+            section.createEl("h6", { text: "Files (" + root.files.length + ")" });
+            for (let file of root.files) {
+                let row = new Setting(section)
+                    .setName(file.path)
+                    .setDesc(STATE_LABELS[file.state] + ", last synced " + timeAgo(file.lastSynced));
+                row.settingEl.addClass("collab-status-" + file.state);
+                if (file.state != "synced") {
+                    row.addExtraButton(button => button
+                        .setIcon("rotate-ccw")
+                        .setTooltip("Retry now")
+                        .onClick(() => this.source.retryFile(file.path)));
+                }
+            }
+        }
+    }
+}
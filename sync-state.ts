@@ -0,0 +1,49 @@
+import { CACHE_STATE_VERSION, CacheState, PRIORITY_BACKGROUND } from "file-cache"
+import { JsonFileStore } from "json-store"
+
+// Reads and writes the file cache to the plugin directory so shadows survive reloads
+export class SyncStateStore extends JsonFileStore<CacheState> {
+    migrate(state: CacheState): CacheState | null {
+        if (!state || typeof state.version !== "number") {
+            console.log("Sync state has no version, ignoring it");
+            return null;
+        }
+        if (state.version > CACHE_STATE_VERSION) {
+            console.log("Sync state is from a newer plugin version, ignoring it", state.version);
+            return null;
+        }
+        // older versions get upgraded here, one step at a time
+        if (state.version < 2) {
+            state.offlineEdits = [];
+        }
+        if (state.version < 3) {
+            state.conflicts = {};
+        }
+        if (state.version < 4) {
+            state.attachments = {};
+        }
+        if (state.version < 5) {
+            state.fileIds = {};
+            state.pendingMoves = [];
+        }
+        if (state.version < 6) {
+            for (let item of state.updateQueue || []) {
+                item.priority = PRIORITY_BACKGROUND;
+            }
+        }
+        if (state.version < 7) {
+            state.pendingDeletes = [];
+        }
+        return {
+            version: CACHE_STATE_VERSION,
+            fileCache: state.fileCache || {},
+            updateQueue: state.updateQueue || [],
+            offlineEdits: state.offlineEdits || [],
+            conflicts: state.conflicts || {},
+            attachments: state.attachments || {},
+            fileIds: state.fileIds || {},
+            pendingMoves: state.pendingMoves || [],
+            pendingDeletes: state.pendingDeletes || []
+        };
+    }
+}
@@ -1,174 +1,477 @@
-import { App, TFile } from "obsidian"
+import { App, TFile, arrayBufferToBase64, base64ToArrayBuffer } from "obsidian"
 import { CollabFileCache } from "file-cache"
+import {
+    AccessDeniedError, AttachmentResponse, BrokerEvent, BrokerVersion, BrokerTransport, EncryptionMode, Invite, Role, MoveResponse, FileDeletedError, PatchBatchEntry, PatchBatchResult, PatchRequest, PatchResponse, SealedPatchResponse, PresenceCursor, PresenceState, Subscription, SubscriptionHandlers, TreeEntry
+} from "transport"
+import { HttpTransport } from "http-transport"
+import { InMemoryBroker } from "memory-broker"
+import { RootCipher } from "encryption"
+import { sha256Hex } from "attachments"
 
-export interface ServerResponse {
-    status: number,
-    patch: string,
-    checksum: string,
-    // only used when checksums didn't match
-    content: string
-}
-export interface ServerRequest {
-    path: string,
-    checksum: string,
-    patch: string,
-    root: string | null,
-    userId: string | null,
-    secretKey: string | null
-}
+// endpoints with this scheme use an in-process broker, handy for demos without a server
+const MEMORY_ENDPOINT_PREFIX = "memory://";
+const memoryBrokers: {[endpoint: string]: InMemoryBroker} = {};
 
-export class FileDeletedError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = "FileDeletedError";
+export function createTransport(endpoint: string): BrokerTransport {
+    if (endpoint.startsWith(MEMORY_ENDPOINT_PREFIX)) {
+        if (!(endpoint in memoryBrokers)) {
+            memoryBrokers[endpoint] = new InMemoryBroker();
+        }
+        return memoryBrokers[endpoint];
     }
+    return new HttpTransport(endpoint);
 }
 
-const API_VERSION = "v1";
-
 // This class contains helper commands for interacting with the remote server
 export class SyncUtil {
     app: App;
-    rootDirectories: {[root: string]: string} = {};
+    transport: BrokerTransport;
+    rootDirectories: {[root: string]: TreeEntry[]} = {};
+    // what the token we hold lets us do in each root, from the last getRoot
+    rootRoles: {[root: string]: Role} = {};
     userId: string | null = null;
-    secretKey: string | null = null;
-    endpoint: string | null = null;
+    // invite or owner token per root, sent as the secretKey
+    tokens: {[root: string]: string} = {};
+    // how each root is sealed, from settings or the last getRoot
+    rootEncryption: {[root: string]: {mode: EncryptionMode, keySalt: string, keyCheck: string}} = {};
+    // keys of the sealed roots. Paths and content going out are sealed here, and opened coming back
+    ciphers: {[root: string]: RootCipher} = {};
+    // set once the broker turned out not to have the batch endpoint, from then on batches go out one file at a time
+    batchUnsupported = false;
 
-    constructor(app: App, endpoint: string, userId: string | null = null) {
+    constructor(app: App, transport: BrokerTransport, userId: string | null = null) {
         this.app = app;
+        this.transport = transport;
         this.userId = userId;
-        // remove trailing slash
-        if (endpoint.endsWith("/")) {
-            this.endpoint = endpoint.slice(0, -1);
-        } else {
-            this.endpoint = endpoint;
+    }
+
+    isSealed(root: string) {
+        return (this.rootEncryption[root]?.mode || "none") != "none";
+    }
+
+    // null for plain roots. Throws for sealed roots we have no key for, so nothing goes out in plaintext
+    cipherFor(root: string) {
+        let cipher = this.ciphers[root];
+        if (!cipher && this.isSealed(root)) {
+            throw new Error("No key for encrypted root " + root);
         }
+        return cipher || null;
+    }
+
+    async sealPath(root: string, path: string) {
+        let cipher = this.cipherFor(root);
+        return cipher ? cipher.sealPath(path) : path;
     }
 
-    async postPatch(request: ServerRequest): Promise<ServerResponse> {
+    async openPath(root: string, path: string) {
+        let cipher = this.cipherFor(root);
+        return cipher ? cipher.openPath(path) : path;
+    }
+
+    async postPatch(request: PatchRequest): Promise<PatchResponse> {
         if (!this.userId) {
             throw new Error("No user id yet!");
         }
         request.userId = this.userId;
-        request.secretKey = request.secretKey || this.secretKey;
+        request.secretKey = request.secretKey || this.tokens[request.root] || null;
         // call the server with the patch
-        let url = [this.endpoint, API_VERSION, "patch"].join("/");
-        let response = await fetch(url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify(request)
-        });
-        let responseJSON = await response.json();
-        // convert to ServerResponse
-        if (responseJSON.status == 409) {
-            if (responseJSON.content.contains("File is deleted")) {
+        let response = await this.transport.postPatch(request);
+        if (response.status == 403) {
+            throw new AccessDeniedError(response.content);
+        } else if (response.status == 409) {
+            if (response.content.contains("File is deleted")) {
                 throw new FileDeletedError("File is deleted");
             }
-        } else if (responseJSON.status != 200) {
-            console.log(responseJSON);
-        }
-        let responseObj: ServerResponse = {
-            status: responseJSON.status,
-            patch: responseJSON.patch,
-            checksum: responseJSON.checksum,
-            content: responseJSON.content
-        };
+        } else if (response.status != 200) {
+            console.log(response);
+        }
+        return response;
+    }
 
-        return responseObj;
+    // The broker's current content of a file in a plain root. Our shadow on the broker stays as it was.
+    async fetchContent(path: string, root: string): Promise<string> {
+        let response = await this.transport.getContent({
+            path: path,
+            root: root,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status == 403) {
+            throw new AccessDeniedError(response.content);
+        } else if (response.status == 409 && response.content.contains("File is deleted")) {
+            throw new FileDeletedError("File is deleted");
+        } else if (response.status != 200) {
+            throw new Error("Couldn't fetch " + path + ": " + response.content);
+        }
+        return response.content;
     }
 
-    async registerFile(path: string, root: string, content: string): Promise<string> {
-        let url = [this.endpoint, API_VERSION, "register"].join("/");
-        let response = await fetch(url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                path: path,
-                userId: this.userId,
-                secretKey: this.secretKey,
-                root: root,
-                content: content
-            })
+    // Patches for several files of a plain root in one request, results in the order of the entries.
+    // Unlike postPatch nothing per file throws, a 403 or a deleted file is just that file's status.
+    async postPatchBatch(root: string, entries: PatchBatchEntry[]): Promise<PatchBatchResult[]> {
+        if (!this.userId) {
+            throw new Error("No user id yet!");
+        }
+        let credentials = { userId: this.userId, secretKey: this.tokens[root] || null };
+        if (this.transport.postPatchBatch && !this.batchUnsupported) {
+            let response = await this.transport.postPatchBatch({ root: root, entries: entries, ...credentials });
+            if (response.status == 200) {
+                let byPath: {[path: string]: PatchBatchResult} = {};
+                for (let result of response.results) {
+                    byPath[result.path] = result;
+                }
+                // anything the broker left out counts as failed, so it gets synced on its own
+                return entries.map((entry) => byPath[entry.path] || { path: entry.path, status: 500, patch: "", checksum: "", content: "Missing from batch" });
+            } else if (response.status == 403) {
+                throw new AccessDeniedError(response.content);
+            } else if (response.content.contains("Root does not exist")) {
+                return entries.map((entry) => ({ path: entry.path, status: 404, patch: "", checksum: "", content: response.content }));
+            } else if (response.status != 404 && response.status != 405) {
+                // anything else may be a passing hiccup, the caller retries the files and batches stay on
+                throw new Error("Batch failed: " + response.status + " " + response.content);
+            }
+            console.log("Broker doesn't take batches, patching one file at a time", response);
+            this.batchUnsupported = true;
+        }
+        let results: PatchBatchResult[] = [];
+        for (let entry of entries) {
+            let response = await this.transport.postPatch({ root: root, ...entry, ...credentials });
+            results.push({ path: entry.path, ...response });
+        }
+        return results;
+    }
+
+    // Swap in the new content of a file in a sealed root, if the broker still has the content we last synced.
+    // content null only checks for changes. 409 responses carry the current content, already opened.
+    async postSealedPatch(path: string, root: string, shadow: string, content: string | null): Promise<SealedPatchResponse> {
+        if (!this.userId) {
+            throw new Error("No user id yet!");
+        }
+        let cipher = this.cipherFor(root)!;
+        let response = await this.transport.postSealedPatch({
+            root: root,
+            path: await cipher.sealPath(path),
+            checksum: await cipher.checksum(shadow),
+            content: content == null ? null : await cipher.seal(content),
+            newChecksum: content == null ? null : await cipher.checksum(content),
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
         });
-        let responseJSON = await response.json();
-        if (this.userId == null && responseJSON.userId) {
-            this.userId = this.userId || responseJSON.userId;
+        if (response.status == 403) {
+            throw new AccessDeniedError(response.content);
+        } else if (response.status == 409) {
+            if (response.content.contains("File is deleted")) {
+                throw new FileDeletedError("File is deleted");
+            }
+            response.content = await cipher.open(response.content);
+        } else if (response.status == 301) {
+            response.content = await cipher.openPath(response.content);
+        } else if (response.status != 200) {
+            console.log(response);
         }
+        return response;
+    }
 
-        if (responseJSON.status == 409) {
-            if (responseJSON.content.contains("File is deleted")) {
+    async registerFile(path: string, root: string, content: string): Promise<{content: string, fileId: string | null}> {
+        let cipher = this.cipherFor(root);
+        let response = await this.transport.registerFile({
+            path: await this.sealPath(root, path),
+            userId: this.userId,
+            secretKey: this.tokens[root] || null,
+            root: root,
+            content: cipher ? await cipher.seal(content) : content,
+            checksum: cipher ? await cipher.checksum(content) : null
+        });
+        if (this.userId == null && response.userId) {
+            this.userId = this.userId || response.userId;
+        }
+
+        if (response.status == 403) {
+            throw new AccessDeniedError(response.content);
+        } else if (response.status == 409) {
+            if (response.content.contains("File is deleted")) {
                 throw new FileDeletedError("File is deleted");
             }
-        } else if (responseJSON.status != 200) {
+        } else if (response.status != 200) {
             throw new Error("Failed to register file");
         }
         // return the shadow to track
-        return responseJSON.content;
+        return { content: cipher ? await cipher.open(response.content) : response.content, fileId: response.fileId };
     }
 
+    // path can be a folder, which deletes everything under it
     async deleteFile(path: string, root: string): Promise<void> {
         console.log("Posting delete request for", path, "in root", root);
-        let url = [this.endpoint, API_VERSION, "delete"].join("/");
-        let response = await fetch(url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                path: path,
-                userId: this.userId,
-                secretKey: this.secretKey,
-                root: root
-            })
+        let response = await this.transport.deleteFile({
+            path: await this.sealPath(root, path),
+            userId: this.userId,
+            secretKey: this.tokens[root] || null,
+            root: root
         });
-        let responseJSON = await response.json()
         if (response.status != 200) {
-            throw new Error("Failed to delete file\n" + responseJSON.content);
+            throw new Error("Failed to delete file\n" + response.content);
+        }
+    }
+
+    async getRoot(root: string): Promise<TreeEntry[]> {
+        let response = await this.transport.getRoot({
+            root: root,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status == 403) {
+            throw new AccessDeniedError(response.content);
+        } else if (response.status != 200) {
+            throw new Error("Failed to get root\n" + response.content);
+        }
+        this.rootRoles[root] = response.role;
+        this.rootEncryption[root] = { mode: response.encryption, keySalt: response.keySalt, keyCheck: response.keyCheck };
+        // without a key yet the paths stay sealed, joining only needs the encryption info
+        if (this.ciphers[root]) {
+            for (let entry of response.tree) {
+                entry.path = await this.ciphers[root].openPath(entry.path);
+            }
         }
+        this.rootDirectories[root] = response.tree;
+        return response.tree;
     }
 
-    async getRoot(root: string) {
-        let url = [this.endpoint, API_VERSION, "root"].join("/");
-        let response = await fetch(url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
+    // Move a file, or a whole folder, keeping its identity. Returns the path the file ended up at,
+    // which is someone else's choice when they moved it first.
+    async moveFile(from: string, to: string, root: string, fileId: string | null): Promise<string> {
+        console.log("Posting move request for", from, "to", to, "in root", root);
+        let response: MoveResponse = await this.transport.moveFile({
+            from: await this.sealPath(root, from),
+            to: await this.sealPath(root, to),
+            fileId: fileId,
+            root: root,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status != 200 && !(response.status == 409 && response.path)) {
+            throw new Error("Failed to move file\n" + response.content);
+        }
+        return await this.openPath(root, response.path);
+    }
+
+    // current blob for an attachment, null if the broker doesn't have it yet
+    async getAttachment(path: string, root: string): Promise<AttachmentResponse | null> {
+        let response = await this.transport.getAttachment({
+            path: await this.sealPath(root, path),
+            root: root,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status == 409 && response.content.contains("File is deleted")) {
+            throw new FileDeletedError("File is deleted");
+        } else if (response.status == 404 && !response.content.contains("Root does not exist")) {
+            return null;
+        } else if (response.status != 200) {
+            throw new Error("Failed to get attachment\n" + response.content);
+        }
+        return response;
+    }
+
+    // The hash the broker knows data by. In sealed roots that's the hash of the sealed blob,
+    // which is stable because blobs are sealed deterministically.
+    async attachmentHash(root: string, data: ArrayBuffer) {
+        let cipher = this.cipherFor(root);
+        return sha256Hex(cipher ? await cipher.sealBytesDeterministic(data) : data);
+    }
+
+    // Point path at the blob with this hash, uploading it first if the broker doesn't have it.
+    // The hash in the result differs from ours when someone else replaced it first.
+    async putAttachment(path: string, root: string, hash: string, previousHash: string | null, data: ArrayBuffer): Promise<AttachmentResponse> {
+        let cipher = this.cipherFor(root);
+        let exists = await this.transport.hasBlob({
+            root: root,
+            hash: hash,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (exists.status != 200) {
+            throw new Error("Failed to check blob\n" + exists.content);
+        }
+        if (!exists.exists) {
+            let upload = await this.transport.uploadBlob({
                 root: root,
+                hash: hash,
+                data: arrayBufferToBase64(cipher ? await cipher.sealBytesDeterministic(data) : data),
                 userId: this.userId,
-                secretKey: this.secretKey
-            })
+                secretKey: this.tokens[root] || null
+            });
+            if (upload.status != 200) {
+                throw new Error("Failed to upload blob\n" + upload.content);
+            }
+        }
+        let response = await this.transport.putAttachment({
+            path: await this.sealPath(root, path),
+            root: root,
+            hash: hash,
+            previousHash: previousHash,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status == 409 && response.content.contains("File is deleted")) {
+            throw new FileDeletedError("File is deleted");
+        } else if (response.status != 200 && response.status != 409) {
+            throw new Error("Failed to put attachment\n" + response.content);
+        }
+        return response;
+    }
+
+    async downloadBlob(root: string, hash: string): Promise<ArrayBuffer> {
+        let response = await this.transport.downloadBlob({
+            root: root,
+            hash: hash,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
         });
-        let responseJSON = await response.json()
         if (response.status != 200) {
-            throw new Error("Failed to get root");
+            throw new Error("Failed to download blob\n" + response.content);
         }
-        this.rootDirectories[root] = responseJSON.tree;
-        return responseJSON.tree;
+        let cipher = this.cipherFor(root);
+        let data = base64ToArrayBuffer(response.data);
+        return cipher ? await cipher.openBytes(data) : data;
     }
 
-    async registerRoot(): Promise<string> {
-        let url = [this.endpoint, API_VERSION, "root"].join("/");
-        let response = await fetch(url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                userId: this.userId,
-                secretKey: this.secretKey
-            })
+    async postPresence(root: string, displayName: string, path: string | null, cursor: PresenceCursor | null): Promise<PresenceState[]> {
+        if (!this.userId) {
+            throw new Error("No user id yet!");
+        }
+        let response = await this.transport.postPresence({
+            root: root,
+            displayName: displayName,
+            path: path == null ? null : await this.sealPath(root, path),
+            cursor: cursor,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
         });
-        let responseJSON = await response.json();
-        if (responseJSON.status != 200) {
+        if (response.status != 200) {
+            throw new Error("Failed to post presence\n" + response.content);
+        }
+        for (let peer of response.peers) {
+            peer.path = peer.path == null ? null : await this.openPath(root, peer.path);
+        }
+        return response.peers;
+    }
+
+    // past versions the broker kept, oldest first. null when the broker doesn't keep any
+    async getHistory(path: string, root: string): Promise<BrokerVersion[] | null> {
+        if (!this.transport.getHistory) {
+            return null;
+        }
+        let response = await this.transport.getHistory({
+            root: root,
+            path: await this.sealPath(root, path),
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status == 404) {
+            return [];
+        } else if (response.status != 200) {
+            throw new Error("Failed to get history\n" + response.content);
+        }
+        let cipher = this.cipherFor(root);
+        if (cipher) {
+            for (let version of response.versions) {
+                version.content = await cipher.open(version.content);
+            }
+        }
+        return response.versions;
+    }
+
+    supportsPush() {
+        return this.transport.subscribe != null;
+    }
+
+    subscribe(root: string, handlers: SubscriptionHandlers): Subscription | null {
+        if (!this.transport.subscribe) {
+            return null;
+        }
+        // sealed paths in events get opened before the handlers see them
+        let onEvent = async (event: BrokerEvent) => {
+            try {
+                if (event.type == "file-changed") {
+                    event.path = await this.openPath(root, event.path);
+                } else if (event.type == "presence") {
+                    for (let peer of event.peers) {
+                        peer.path = peer.path == null ? null : await this.openPath(root, peer.path);
+                    }
+                }
+            } catch (e) {
+                console.log("Dropping event we can't open", event, e);
+                return;
+            }
+            handlers.onEvent(event);
+        };
+        return this.transport.subscribe({
+            root: root,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        }, { onOpen: handlers.onOpen, onEvent: onEvent, onClose: handlers.onClose });
+    }
+
+    // Returns the new root and its owner token, which is also remembered for later requests.
+    // A cipher seals the root, keySalt is what a passphrase key was derived with.
+    async registerRoot(cipher: RootCipher | null = null, keySalt = ""): Promise<{root: string, token: string}> {
+        let mode: EncryptionMode = cipher ? (cipher.encryptPaths ? "paths" : "content") : "none";
+        let keyCheck = cipher ? await cipher.keyCheck() : "";
+        let response = await this.transport.registerRoot({
+            encryption: mode,
+            keySalt: keySalt,
+            keyCheck: keyCheck,
+            userId: this.userId,
+            secretKey: null
+        });
+        if (response.status != 200) {
             throw new Error("Failed to register root");
         }
-        let root = responseJSON.root;
-        return root;
+        this.tokens[response.root] = response.token;
+        this.rootRoles[response.root] = "owner";
+        this.rootEncryption[response.root] = { mode: mode, keySalt: keySalt, keyCheck: keyCheck };
+        if (cipher) {
+            this.ciphers[response.root] = cipher;
+        }
+        return { root: response.root, token: response.token };
     }
-}
\ No newline at end of file
+
+    async createInvite(root: string, role: Role): Promise<Invite> {
+        let response = await this.transport.createInvite({
+            root: root,
+            role: role,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status != 200) {
+            throw new Error("Failed to create invite\n" + response.content);
+        }
+        return response.invites[0];
+    }
+
+    async listInvites(root: string): Promise<Invite[]> {
+        let response = await this.transport.listInvites({
+            root: root,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status != 200) {
+            throw new Error("Failed to list invites\n" + response.content);
+        }
+        return response.invites;
+    }
+
+    // everyone who joined with token loses access, returns the invites left
+    async revokeInvite(root: string, token: string): Promise<Invite[]> {
+        let response = await this.transport.revokeInvite({
+            root: root,
+            token: token,
+            userId: this.userId,
+            secretKey: this.tokens[root] || null
+        });
+        if (response.status != 200) {
+            throw new Error("Failed to revoke invite\n" + response.content);
+        }
+        return response.invites;
+    }
+}
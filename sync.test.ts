@@ -0,0 +1,199 @@
+import { App } from "obsidian"
+import { CollabFileCache, PatchFailedError } from "file-cache"
+import { InMemoryBroker } from "memory-broker"
+import { SyncUtil } from "sync-util"
+import { threeWayMerge } from "merge"
+import { FileDeletedError, PatchBatchRequest } from "transport"
+
+// Broker and protocol tests: what the in-memory broker answers to the requests a SyncUtil sends. None of the
+// plugin's own code runs here, main.test.ts covers that.
+
+// A vault of one client reduced to the protocol: a shadow per file in a CollabFileCache, differential patches
+// through a SyncUtil, and a three-way merge when the broker answers 409.
+class Client {
+    syncUtil: SyncUtil;
+    cache = new CollabFileCache();
+    files: {[path: string]: string} = {};
+    root: string;
+
+    constructor(broker: InMemoryBroker, root: string, token: string) {
+        this.syncUtil = new SyncUtil({} as App, broker);
+        this.syncUtil.tokens[root] = token;
+        this.root = root;
+    }
+
+    // like the plugin's registerFile, files created empty from the tree get the broker's content
+    async register(path: string) {
+        let content = this.files[path] ?? "";
+        let registered = await this.syncUtil.registerFile(path, this.root, content);
+        if (content == "" && registered.content != "") {
+            this.files[path] = registered.content;
+        }
+        this.cache.createCachedFile(path, registered.content);
+    }
+
+    // one round trip, returns the status the broker answered with
+    async sync(path: string) {
+        let shadow = this.cache.getCachedFile(path).content;
+        let checksum = this.cache.getChecksum(path);
+        let patch = this.cache.getPatchBlock(path, this.files[path]);
+        let response = await this.syncUtil.postPatch({ root: this.root, path: path, checksum: checksum, patch: patch, userId: null, secretKey: null });
+        if (response.status == 200) {
+            try {
+                this.files[path] = this.cache.applyPatch(path, this.files[path], response.patch);
+            } catch (e) {
+                if (!(e instanceof PatchFailedError)) {
+                    throw e;
+                }
+                let remote = await this.syncUtil.fetchContent(path, this.root);
+                this.cache.updateCachedFile(path, remote);
+                this.files[path] = remote;
+            }
+        } else if (response.status == 409) {
+            this.cache.updateCachedFile(path, response.content);
+            let merge = threeWayMerge(shadow, this.files[path], response.content);
+            if (!merge.clean) {
+                throw new Error("Conflict in " + path);
+            }
+            this.files[path] = merge.content!;
+        } else {
+            this.cache.revert(path, shadow);
+        }
+        return response.status;
+    }
+}
+
+async function setUp() {
+    let broker = new InMemoryBroker();
+    let owner = new SyncUtil({} as App, broker);
+    let { root, token } = await owner.registerRoot();
+    let invite = await owner.createInvite(root, "editor");
+    return {
+        broker: broker,
+        root: root,
+        alice: new Client(broker, root, token),
+        bob: new Client(broker, root, invite.token)
+    };
+}
+
+async function brokerContent(client: Client, path: string) {
+    return await client.syncUtil.fetchContent(path, client.root);
+}
+
+describe("the sync protocol against the in-memory broker", () => {
+    test("joining fills in the existing note instead of wiping it", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["note.md"] = "Meeting notes\n- budget\n";
+        await alice.register("note.md");
+        // bob's vault gets the file created empty from the tree
+        bob.files["note.md"] = "";
+        await bob.register("note.md");
+        expect(bob.files["note.md"]).toBe("Meeting notes\n- budget\n");
+        expect(await bob.sync("note.md")).toBe(200);
+        expect(await brokerContent(alice, "note.md")).toBe("Meeting notes\n- budget\n");
+    });
+
+    test("concurrent edits to different parts both survive", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["note.md"] = "first line\nsecond line\nthird line\n";
+        await alice.register("note.md");
+        await bob.register("note.md");
+        alice.files["note.md"] = "first line, by alice\nsecond line\nthird line\n";
+        bob.files["note.md"] = "first line\nsecond line\nthird line, by bob\n";
+        await alice.sync("note.md");
+        await bob.sync("note.md");
+        await alice.sync("note.md");
+        let expected = "first line, by alice\nsecond line\nthird line, by bob\n";
+        expect(alice.files["note.md"]).toBe(expected);
+        expect(bob.files["note.md"]).toBe(expected);
+        expect(await brokerContent(alice, "note.md")).toBe(expected);
+    });
+
+    test("incoming patches say who made them", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["note.md"] = "hello";
+        await alice.register("note.md");
+        await bob.register("note.md");
+        alice.files["note.md"] = "hello world";
+        await alice.sync("note.md");
+        let response = await bob.syncUtil.postPatch({ root: bob.root, path: "note.md", checksum: bob.cache.getChecksum("note.md"), patch: "", userId: null, secretKey: null });
+        expect(response.authors?.map((author) => author.userId)).toEqual([alice.syncUtil.userId]);
+    });
+
+    test("an offline edit that no longer applies gets a 409 instead of being dropped", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["note.md"] = "The quick brown fox jumps over the lazy dog";
+        await alice.register("note.md");
+        await bob.register("note.md");
+        // bob edits while offline, meanwhile alice rewrites the whole sentence
+        bob.files["note.md"] = "The quick brown fox jumps over the sleepy dog";
+        alice.files["note.md"] = "Totally unrelated words here";
+        await alice.sync("note.md");
+        let response = await bob.syncUtil.postPatch({
+            root: bob.root,
+            path: "note.md",
+            checksum: bob.cache.getChecksum("note.md"),
+            patch: bob.cache.getPatchBlock("note.md", bob.files["note.md"]),
+            userId: null,
+            secretKey: null
+        });
+        expect(response.status).toBe(409);
+        expect(response.content).toBe(alice.files["note.md"]);
+        expect(await brokerContent(alice, "note.md")).toBe(alice.files["note.md"]);
+        // bob's shadow on the broker was reset, a sync from the broker's content goes through
+        bob.cache.updateCachedFile("note.md", response.content);
+        bob.files["note.md"] = response.content;
+        expect(await bob.sync("note.md")).toBe(200);
+    });
+
+    test("reading the content leaves our shadow on the broker alone", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["note.md"] = "hello";
+        await alice.register("note.md");
+        await bob.register("note.md");
+        alice.files["note.md"] = "hello there";
+        await alice.sync("note.md");
+        expect(await brokerContent(bob, "note.md")).toBe("hello there");
+        // still acknowledged at "hello", so the patch from there applies
+        bob.files["note.md"] = "hello!";
+        expect(await bob.sync("note.md")).toBe(200);
+        expect(bob.files["note.md"]).toBe("hello there!");
+    });
+
+    test("moves redirect the other client's patches", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["old.md"] = "content";
+        await alice.register("old.md");
+        await bob.register("old.md");
+        expect(await alice.syncUtil.moveFile("old.md", "new.md", alice.root, null)).toBe("new.md");
+        let response = await bob.syncUtil.postPatch({ root: bob.root, path: "old.md", checksum: bob.cache.getChecksum("old.md"), patch: "", userId: null, secretKey: null });
+        expect(response.status).toBe(301);
+        expect(response.content).toBe("new.md");
+    });
+
+    test("deletes reach the other client", async () => {
+        let { alice, bob } = await setUp();
+        alice.files["note.md"] = "content";
+        await alice.register("note.md");
+        await bob.register("note.md");
+        await alice.syncUtil.deleteFile("note.md", alice.root);
+        await expect(bob.sync("note.md")).rejects.toThrow(FileDeletedError);
+        await expect(brokerContent(bob, "note.md")).rejects.toThrow(FileDeletedError);
+        let tree = await bob.syncUtil.getRoot(bob.root);
+        expect(tree.find((entry) => entry.path == "note.md")?.deleted).toBe(true);
+    });
+
+    test("a failed batch is retried later instead of turning batches off", async () => {
+        let { broker, alice } = await setUp();
+        alice.files["note.md"] = "content";
+        await alice.register("note.md");
+        let entries = [{ path: "note.md", checksum: alice.cache.getChecksum("note.md"), patch: "" }];
+        let batch = broker.postPatchBatch.bind(broker);
+        broker.postPatchBatch = async () => ({ status: 500, results: [], content: "Internal error" });
+        await expect(alice.syncUtil.postPatchBatch(alice.root, entries)).rejects.toThrow("Batch failed");
+        expect(alice.syncUtil.batchUnsupported).toBe(false);
+        broker.postPatchBatch = async (request: PatchBatchRequest) => batch(request);
+        let results = await alice.syncUtil.postPatchBatch(alice.root, entries);
+        expect(results[0].status).toBe(304);
+    });
+});
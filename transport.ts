@@ -0,0 +1,360 @@
+// Wire types for every broker operation, and the interface transports implement.
+// Every request carries the caller's credentials, every response a status code
+// mirroring the HTTP one (200 ok, 403 not allowed, 404 missing, 409 conflict or deleted).
+
+export interface Credentials {
+    userId: string | null,
+    // the invite token for the root, or its owner token
+    secretKey: string | null
+}
+
+// owners manage invites, editors change files, viewers only read
+export type Role = "owner" | "editor" | "viewer";
+
+// Sealed roots are end-to-end encrypted, "paths" encrypts the tree's paths as well as content
+export type EncryptionMode = "none" | "content" | "paths";
+
+export interface PatchRequest extends Credentials {
+    root: string,
+    path: string,
+    // checksum of the client's shadow before applying patch
+    checksum: string,
+    patch: string
+}
+// Someone whose changes an incoming patch carries
+export interface PatchAuthor {
+    // null for changes the broker can't attribute
+    userId: string | null,
+    // ms since epoch of their latest change in the patch
+    timestamp: number
+}
+export interface PatchResponse {
+    // 301 when the file was moved, content is then its new path
+    status: number,
+    patch: string,
+    checksum: string,
+    // only used when checksums didn't match, or to carry an error message
+    content: string,
+    // who made the changes in patch, newest last. Left out by brokers that don't track it
+    authors?: PatchAuthor[]
+}
+
+// A file's current content in a plain root, read without touching the caller's shadow
+export interface ContentRequest extends Credentials {
+    root: string,
+    path: string
+}
+export interface ContentResponse {
+    // 301 like PatchResponse, 409 for deleted files
+    status: number,
+    // or an error message
+    content: string
+}
+
+// Several files of one root in one round trip, for the periodic refresh. Entries with an empty patch are probes:
+// when the broker has nothing newer than the checksum it answers 304 instead of building a patch.
+export interface PatchBatchEntry {
+    path: string,
+    checksum: string,
+    patch: string
+}
+export interface PatchBatchRequest extends Credentials {
+    root: string,
+    entries: PatchBatchEntry[]
+}
+export interface PatchBatchResult extends PatchResponse {
+    path: string
+}
+export interface PatchBatchResponse {
+    // per-file outcomes are in results, this is about the batch as a whole
+    status: number,
+    results: PatchBatchResult[],
+    content: string
+}
+
+// The broker can't apply patches to sealed content, so in sealed roots clients swap whole contents instead.
+// Checksums are keyed checksums of the plaintext, which the broker compares without being able to read anything.
+export interface SealedPatchRequest extends Credentials {
+    root: string,
+    path: string,
+    // checksum of the content the client last synced
+    checksum: string,
+    // new sealed content and its checksum, both null to only ask whether anything changed
+    content: string | null,
+    newChecksum: string | null
+}
+export interface SealedPatchResponse {
+    // 409 when checksum is stale, content and checksum are then the current ones. 301 like PatchResponse
+    status: number,
+    checksum: string,
+    content: string
+}
+
+export interface RegisterFileRequest extends Credentials {
+    root: string,
+    path: string,
+    content: string,
+    // keyed checksum of content in sealed roots, null otherwise
+    checksum: string | null
+}
+export interface RegisterFileResponse {
+    status: number,
+    // the broker's content, which becomes our shadow
+    content: string,
+    // assigned by the broker when the request had none
+    userId: string | null,
+    // stable across moves
+    fileId: string | null
+}
+
+// Deletes a file, or every file under a folder when path is a folder path
+export interface DeleteFileRequest extends Credentials {
+    root: string,
+    path: string
+}
+export interface DeleteFileResponse {
+    status: number,
+    content: string
+}
+
+// One file or folder in a root. Deleted files stay in the tree as tombstones,
+// folders are deleted once nothing under them is live.
+export interface TreeEntry {
+    // localized path
+    path: string,
+    kind: "file" | "folder",
+    // null for folders
+    fileId: string | null,
+    deleted: boolean,
+    // ms since epoch of the last change, for folders the latest change under them
+    modified: number,
+    // userId of whoever made that change, null when unknown
+    author: string | null
+}
+
+export interface GetRootRequest extends Credentials {
+    root: string
+}
+export interface GetRootResponse {
+    status: number,
+    tree: TreeEntry[],
+    // what the secretKey we sent lets us do
+    role: Role,
+    encryption: EncryptionMode,
+    // from RegisterRootRequest, for sealed roots
+    keySalt: string,
+    keyCheck: string,
+    content: string
+}
+
+// Moves a file, or every file under a folder when from is a folder path
+export interface MoveRequest extends Credentials {
+    root: string,
+    from: string,
+    to: string,
+    // id of the file being moved, null for folders
+    fileId: string | null
+}
+export interface MoveResponse {
+    // 409 when the destination exists, or when the file was already moved elsewhere (path is then where it went)
+    status: number,
+    path: string,
+    content: string
+}
+
+export interface RegisterRootRequest extends Credentials {
+    encryption: EncryptionMode,
+    // opaque to the broker: the salt a passphrase key was derived with, and a checksum joiners verify their key against
+    keySalt: string,
+    keyCheck: string
+}
+export interface RegisterRootResponse {
+    status: number,
+    root: string,
+    // owner token for the new root
+    token: string,
+    content: string
+}
+
+// Invites are tokens handed out by owners, everyone joining with one gets its role until it's revoked
+export interface Invite {
+    token: string,
+    role: Role,
+    // ms since epoch
+    created: number
+}
+export interface CreateInviteRequest extends Credentials {
+    root: string,
+    role: Role
+}
+export interface InviteListRequest extends Credentials {
+    root: string
+}
+export interface RevokeInviteRequest extends Credentials {
+    root: string,
+    token: string
+}
+export interface InviteResponse {
+    status: number,
+    invites: Invite[],
+    content: string
+}
+
+// Attachments are stored whole as content-addressed blobs, and a path points at a blob by hash
+export interface AttachmentRequest extends Credentials {
+    root: string,
+    path: string
+}
+export interface AttachmentResponse {
+    status: number,
+    // sha-256 of the blob the path currently points at
+    hash: string,
+    fileId: string | null,
+    content: string
+}
+export interface PutAttachmentRequest extends Credentials {
+    root: string,
+    path: string,
+    hash: string,
+    // the hash we last saw, so concurrent replacements are caught. null for new attachments
+    previousHash: string | null
+}
+export interface BlobRequest extends Credentials {
+    root: string,
+    hash: string
+}
+export interface HasBlobResponse {
+    status: number,
+    exists: boolean,
+    content: string
+}
+export interface UploadBlobRequest extends BlobRequest {
+    // base64 encoded bytes
+    data: string
+}
+export interface BlobResponse {
+    status: number,
+    // base64 encoded bytes, empty unless downloading
+    data: string,
+    content: string
+}
+
+export interface PresenceCursor {
+    // offsets into the document
+    anchor: number,
+    head: number
+}
+export interface PresenceState {
+    userId: string,
+    displayName: string,
+    root: string,
+    // localized path of the open file, null when the user has nothing open in this root
+    path: string | null,
+    cursor: PresenceCursor | null,
+    // epoch the broker last heard from this user
+    updated: number
+}
+export interface PresenceRequest extends Credentials {
+    root: string,
+    displayName: string,
+    path: string | null,
+    cursor: PresenceCursor | null
+}
+export interface PresenceResponse {
+    status: number,
+    // everyone currently present in the root, including the caller
+    peers: PresenceState[],
+    content: string
+}
+
+// Pushed by the broker to subscribers of a root
+export type BrokerEvent =
+    // a file's content changed, userId is whoever changed it
+    { type: "file-changed", root: string, path: string, userId: string | null } |
+    // files were added or deleted
+    { type: "tree-changed", root: string } |
+    // someone's presence changed, peers is everyone currently present
+    { type: "presence", root: string, peers: PresenceState[] };
+
+// Past contents of a file the broker kept, sealed in sealed roots
+export interface HistoryRequest extends Credentials {
+    root: string,
+    path: string
+}
+export interface BrokerVersion {
+    content: string,
+    // ms since epoch
+    timestamp: number,
+    author: string | null
+}
+export interface HistoryResponse {
+    status: number,
+    // oldest first
+    versions: BrokerVersion[],
+    content: string
+}
+
+export interface SubscribeRequest extends Credentials {
+    root: string
+}
+export interface SubscriptionHandlers {
+    onOpen(): void,
+    onEvent(event: BrokerEvent): void,
+    // called once, whether the broker went away or close() was called
+    onClose(): void
+}
+export interface Subscription {
+    close(): void
+}
+
+export interface BrokerTransport {
+    postPatch(request: PatchRequest): Promise<PatchResponse>;
+    postSealedPatch(request: SealedPatchRequest): Promise<SealedPatchResponse>;
+    // optional, clients fall back to one postPatch per file
+    postPatchBatch?(request: PatchBatchRequest): Promise<PatchBatchResponse>;
+    getContent(request: ContentRequest): Promise<ContentResponse>;
+    registerFile(request: RegisterFileRequest): Promise<RegisterFileResponse>;
+    deleteFile(request: DeleteFileRequest): Promise<DeleteFileResponse>;
+    moveFile(request: MoveRequest): Promise<MoveResponse>;
+    getRoot(request: GetRootRequest): Promise<GetRootResponse>;
+    registerRoot(request: RegisterRootRequest): Promise<RegisterRootResponse>;
+    // owner only. createInvite answers with the new invite, the others with every live one
+    createInvite(request: CreateInviteRequest): Promise<InviteResponse>;
+    listInvites(request: InviteListRequest): Promise<InviteResponse>;
+    revokeInvite(request: RevokeInviteRequest): Promise<InviteResponse>;
+    getAttachment(request: AttachmentRequest): Promise<AttachmentResponse>;
+    // 409 with the current hash when previousHash is stale, 404 when the blob hasn't been uploaded
+    putAttachment(request: PutAttachmentRequest): Promise<AttachmentResponse>;
+    hasBlob(request: BlobRequest): Promise<HasBlobResponse>;
+    uploadBlob(request: UploadBlobRequest): Promise<BlobResponse>;
+    downloadBlob(request: BlobRequest): Promise<BlobResponse>;
+    // publish our presence in a root and get everyone else's
+    postPresence(request: PresenceRequest): Promise<PresenceResponse>;
+    // optional push channel, transports without one leave it out and clients keep polling
+    subscribe?(request: SubscribeRequest, handlers: SubscriptionHandlers): Subscription;
+    // optional, clients fall back to the history they captured themselves
+    getHistory?(request: HistoryRequest): Promise<HistoryResponse>;
+}
+
+export class FileDeletedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "FileDeletedError";
+    }
+}
+
+// 403, the token we hold doesn't allow this operation (or no longer allows anything)
+export class AccessDeniedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AccessDeniedError";
+    }
+}
+
+// The broker couldn't be reached at all, as opposed to answering with an error
+export class BrokerUnreachableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BrokerUnreachableError";
+    }
+}